@@ -106,27 +106,28 @@ const EmailDemo: React.FC = () => {
       { to: 'user4@example.com', subject: 'Test 6', body: 'This is test email 6' },
     ];
 
-    const results = await Promise.all(testEmails.map(async (email, index) => {
-      const message: EmailMessage = {
-        id: `bulk-test-${Date.now()}-${index}`,
-        ...email,
-        priority: 'normal',
-        timestamp: Date.now()
-      };
-
-      try {
-        const result = await emailService.sendEmail(message);
-        return { email: email.to, success: result.success, error: result.error, provider: result.provider };
-      } catch (error) {
-        return { email: email.to, success: false, error: error instanceof Error ? error.message : 'Unknown error', provider: null };
-      }
+    const messages: EmailMessage[] = testEmails.map((email, index) => ({
+      id: `bulk-test-${Date.now()}-${index}`,
+      ...email,
+      priority: 'normal',
+      timestamp: Date.now()
     }));
 
-    const successful = results.filter(r => r.success).length;
-    const failed = results.filter(r => !r.success).length;
-    
-    const resultSummary = `Bulk test completed! ${successful} succeeded, ${failed} failed.\n\nResults:\n` +
-      results.map(r => `• ${r.email}: ${r.success ? `✅ Sent via ${r.provider}` : `❌ Failed - ${r.error}`}`).join('\n');
+    const report = await emailService.sendBatch(messages, {
+      concurrency: 3,
+      onProgress: ({ completed, total }) => setLastResult(`Sending bulk test emails... ${completed}/${total}`)
+    });
+
+    const providers = Object.entries(report.providers)
+      .map(([provider, counts]) => `${provider}: ${counts.sent} sent, ${counts.failed} failed`)
+      .join('\n');
+    const resultSummary = `Bulk test completed in ${report.durationMs}ms! ${report.sent} succeeded, ${report.failed} failed, ` +
+      `${report.deferred} queued, ${report.retries} retries.\n\n${providers}\n\nResults:\n` +
+      report.results.map(({ index, outcome, result }) => {
+        const to = testEmails[index].to;
+        if (outcome === 'sent') return `• ${to}: ✅ Sent via ${result.provider}`;
+        return `• ${to}: ${outcome === 'deferred' ? '⏳ Queued' : '❌ Failed'} - ${result.error}`;
+      }).join('\n');
     
     setLastResult(resultSummary);
     setSending(false);
@@ -1,14 +1,90 @@
 import {
+  BatchItemResult,
+  BatchOptions,
+  BatchReport,
+  CircuitState,
+  DeadLetter,
+  DeliveryAttempt,
+  DeliveryFailure,
+  DrainOptions,
   EmailProvider,
+  EmailTemplate,
   EmailMessage,
   EmailResult,
   EmailStatus,
+  EmailServiceEventName,
+  EmailServiceEvents,
+  EmailServiceListener,
   EmailServiceOptions,
-  RetryOptions
+  EmailStorage,
+  QueuedEmail,
+  Recipient,
+  RenderedTemplate,
+  RetryOptions,
+  RetryPolicy,
+  RoutingStrategy,
+  ScheduledEmail,
+  SendTemplateOptions,
+  ShutdownResult,
+  Span,
+  SuppressionEntry,
+  SuppressionReason,
+  TemplateRenderer,
+  TemplateVariables,
+  Tracer,
+  ValidationIssue
 } from './types';
-import { RateLimiter } from './utils/RateLimiter';
+import { KeyedRateLimiter, RateLimiter } from './utils/RateLimiter';
 import { CircuitBreaker } from './utils/CircuitBreaker';
-import { Logger } from './utils/Logger';
+import { Logger, createCorrelationId } from './utils/Logger';
+import { PriorityQueue } from './utils/PriorityQueue';
+import { DeadLetterQueue } from './utils/DeadLetterQueue';
+import { createRetryPolicy } from './utils/RetryPolicy';
+import { EventEmitter } from './utils/EventEmitter';
+import { Scheduler } from './utils/Scheduler';
+import { ProviderQuota } from './utils/ProviderQuota';
+import { ProviderStatsTracker } from './utils/ProviderStats';
+import { PriorityRoutingStrategy } from './utils/RoutingStrategy';
+import { AddSuppressionOptions, SuppressionList } from './utils/SuppressionList';
+import { DEFAULT_DELIVERY_BUCKETS, Histogram, MetricsRegistry, renderPrometheus } from './utils/Metrics';
+import { NoopTracer, formatTraceparent, parseTraceparent } from './utils/Tracing';
+import {
+  formatRecipients,
+  getEnvelopeRecipients,
+  getRecipientDomains,
+  normalizeMessageAddresses
+} from './message/addresses';
+import { checkAddress } from './message/addressParser';
+import { validateMessage } from './message/validation';
+import { fingerprintMessage, getIdempotencyKey } from './message/fingerprint';
+import {
+  CancelledError,
+  CircuitOpenError,
+  EmailProviderError,
+  QuotaExhaustedError,
+  TimeoutError,
+  classifyError,
+  isRetryable,
+  shouldFallback
+} from './errors';
+import { InMemoryStorage } from './storage/InMemoryStorage';
+import { TemplateRegistry } from './templates/TemplateRegistry';
+
+const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = { closed: 0, 'half-open': 1, open: 2 };
+const IDEMPOTENCY_SWEEP_INTERVAL_MS = 60 * 1000;
+const DEFAULT_MAX_HISTORY = 50;
+
+/**
+ * State shared by every attempt made while delivering one message
+ */
+interface DeliveryContext {
+  failures: DeliveryFailure[];
+  retryPolicy: RetryPolicy;
+  startedAt: number;
+  signal: AbortSignal;      // Aborted by cancelEmail or when the deadline passes
+  attemptTimeout?: number;
+  span: Span;               // Parent of the attempt and backoff spans
+}
 
 /**
  * Resilient Email Service with retry logic, fallback, idempotency, and rate limiting
@@ -16,12 +92,35 @@ import { Logger } from './utils/Logger';
 export class EmailService {
   private readonly providers: EmailProvider[];
   private readonly rateLimiter: RateLimiter;
+  private readonly domainRateLimiter: KeyedRateLimiter;
   private readonly circuitBreakers: Map<string, CircuitBreaker> = new Map();
+  private readonly quotas: Map<string, ProviderQuota> = new Map();
   private readonly logger: Logger;
-  private readonly emailStatuses: Map<string, EmailStatus> = new Map();
-  private readonly sentEmails: Set<string> = new Set(); // For idempotency
-  private readonly emailQueue: EmailMessage[] = [];
+  private readonly storage: EmailStorage; // Statuses, sent IDs (for idempotency) and queue
+  private readonly emailQueue: PriorityQueue;
+  private readonly deadLetters: DeadLetterQueue;
+  private readonly suppressions: SuppressionList;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly routing: RoutingStrategy;
+  private readonly providerStats: ProviderStatsTracker;
+  private readonly events: EventEmitter<EmailServiceEvents>;
+  private readonly metrics: MetricsRegistry = new MetricsRegistry();
+  private readonly providerLatency: Histogram;
+  private readonly deliveryDuration: Histogram;
+  private readonly tracer: Tracer;
+  private readonly sendSpans: Map<string, Span> = new Map(); // Root span of each sendEmail call still running
+  private readonly correlationIds: Map<string, string> = new Map(); // Of sendEmail calls still running; the status has it later
+  private readonly scheduler: Scheduler;
+  private readonly templates: TemplateRenderer;
+  // By idempotency key; a queued or scheduled email stays in flight until it is delivered, cancelled or suppressed
+  private readonly inFlight: Map<string, { messageId: string; fingerprint: string; promise: Promise<EmailResult> }> = new Map();
+  private readonly activeDeliveries: Map<string, AbortController> = new Map();
+  private readonly deliveries: Set<Promise<EmailResult>> = new Set();
+  private readonly idleWaiters: Set<() => void> = new Set();
+  private queueWait?: { timer: ReturnType<typeof setTimeout>; resolve: () => void };
+  private state: 'running' | 'paused' | 'stopped' = 'running';
   private isProcessingQueue = false;
+  private nextIdempotencySweep = 0;
 
   constructor(
     providers: EmailProvider[],
@@ -29,28 +128,354 @@ export class EmailService {
   ) {
     this.providers = providers;
     this.rateLimiter = new RateLimiter(options.rateLimit);
-    this.logger = new Logger();
+    this.domainRateLimiter = new KeyedRateLimiter(options.rateLimit.perDomain);
+    this.logger = new Logger({
+      ...options.logging,
+      sinks: options.enableLogging ? options.logging?.sinks : [],
+      correlationIdFor: messageId => this.correlationIdFor(messageId)
+    });
+    this.emailQueue = new PriorityQueue(options.queue);
+    this.storage = options.storage || new InMemoryStorage();
+    this.deadLetters = new DeadLetterQueue(this.storage, options.deadLetter);
+    this.suppressions = new SuppressionList(this.storage, options.suppression);
+    this.retryPolicy = options.retryPolicy || createRetryPolicy(options.retry);
+    this.routing = options.routing || new PriorityRoutingStrategy();
+    this.providerStats = new ProviderStatsTracker(options.providerStats);
+    this.scheduler = new Scheduler(entry => this.releaseScheduled(entry));
+    this.templates = options.templates || new TemplateRegistry();
+    this.tracer = options.tracer || new NoopTracer();
+    this.events = new EventEmitter<EmailServiceEvents>((event, error) => {
+      this.logger.error('Event listener failed', {
+        event,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
     
     // Initialize circuit breakers for each provider
     providers.forEach(provider => {
-      this.circuitBreakers.set(provider.name, new CircuitBreaker(options.circuitBreaker));
+      this.circuitBreakers.set(provider.name, new CircuitBreaker(options.circuitBreaker, (from, to) => {
+        this.logger.info('Circuit breaker state changed', { provider: provider.name, from, to });
+        this.events.emit('circuit-state-changed', { provider: provider.name, from, to, timestamp: Date.now() });
+      }));
+      this.quotas.set(provider.name, new ProviderQuota(provider.rateLimit, provider.dailyQuota));
     });
 
-    if (options.enableLogging) {
-      this.logger.info('EmailService initialized', {
-        providers: providers.map(p => p.name),
-        options: this.options
-      });
-    }
+    this.logger.info('EmailService initialized', {
+      providers: providers.map(p => p.name),
+      options: this.options
+    });
+
+    this.providerLatency = this.metrics.histogram(
+      'email_provider_latency_seconds',
+      'Provider call latency, by provider and outcome',
+      options.metrics?.latencyBuckets
+    );
+    this.deliveryDuration = this.metrics.histogram(
+      'email_delivery_duration_seconds',
+      'Time from the message timestamp (or send time when scheduled) until it was sent or failed',
+      options.metrics?.deliveryBuckets ?? DEFAULT_DELIVERY_BUCKETS
+    );
+    this.registerMetrics();
+    this.recoverQueue();
+    this.recoverSchedule();
+  }
+
+  /**
+   * Subscribe to a lifecycle event; returns a function that unsubscribes
+   */
+  on<K extends EmailServiceEventName>(event: K, listener: EmailServiceListener<K>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of a lifecycle event only
+   */
+  once<K extends EmailServiceEventName>(event: K, listener: EmailServiceListener<K>): () => void {
+    return this.events.once(event, listener);
+  }
+
+  off<K extends EmailServiceEventName>(event: K, listener: EmailServiceListener<K>): void {
+    this.events.off(event, listener);
   }
 
   /**
    * Send email with full resilience features
    */
   async sendEmail(message: EmailMessage): Promise<EmailResult> {
-    // Check for idempotency
-    if (this.sentEmails.has(message.id)) {
-      const status = this.emailStatuses.get(message.id);
+    // Continues the caller's trace when the message carries a traceparent
+    const span = this.tracer.startSpan('email.send', {
+      parent: parseTraceparent(message.metadata?.traceparent),
+      attributes: {
+        'email.message_id': message.id,
+        'email.priority': message.priority || 'normal',
+        'email.recipient_count': getEnvelopeRecipients(message).length
+      }
+    });
+
+    const result = await this.submit(message, span);
+    const outcome = result.success
+      ? 'sent'
+      : result.provider === 'queue' ? 'queued' : result.provider === 'scheduler' ? 'scheduled' : 'failed';
+    span.setAttributes({
+      'email.outcome': outcome,
+      'email.provider': result.provider,
+      'email.error_category': result.errorCategory
+    });
+    span.setStatus(outcome === 'failed' ? 'error' : 'ok', outcome === 'failed' ? result.error : undefined);
+    span.end();
+    return result;
+  }
+
+  /**
+   * Deduplicate, then admit the message
+   */
+  private async submit(message: EmailMessage, span: Span): Promise<EmailResult> {
+    if (this.state === 'stopped') {
+      return {
+        success: false,
+        error: 'EmailService has been shut down',
+        provider: 'none',
+        timestamp: Date.now()
+      };
+    }
+
+    const key = getIdempotencyKey(message);
+    const fingerprint = fingerprintMessage(message);
+
+    // A send with the same key is still running or waiting to be delivered, so share its outcome
+    const inFlight = this.inFlight.get(key);
+    if (inFlight) {
+      if (inFlight.fingerprint !== fingerprint) {
+        return this.rejectIdempotencyConflict(message, key);
+      }
+      this.logger.info('Email already in flight (idempotency check)', { messageId: message.id, idempotencyKey: key });
+      span.setAttribute('email.deduplicated', true);
+      return inFlight.promise;
+    }
+
+    let record = this.storage.getIdempotencyRecord(key);
+    if (record?.expiresAt !== undefined && record.expiresAt <= Date.now()) {
+      this.storage.removeIdempotencyRecord(key);
+      record = undefined;
+    }
+    if (record) {
+      if (record.fingerprint !== fingerprint) {
+        return this.rejectIdempotencyConflict(message, key);
+      }
+      this.logger.info('Email already sent (idempotency check)', { messageId: message.id, idempotencyKey: key });
+      span.setAttribute('email.deduplicated', true);
+      return {
+        success: true,
+        messageId: record.providerMessageId || record.messageId,
+        provider: record.provider,
+        timestamp: record.sentAt
+      };
+    }
+
+    // Queued and scheduled deliveries happen after this span ends, so they continue its trace through the message.
+    // The correlation ID defaults to the trace ID, so logs and traces can be matched up; later deliveries find it on the status.
+    const { traceId } = span.spanContext();
+    const traced = !/^0+$/.test(traceId);
+    if (traced) {
+      message = { ...message, metadata: { ...message.metadata, traceparent: formatTraceparent(span.spanContext()) } };
+    }
+    const correlationId = message.metadata?.correlationId ?? (traced ? traceId : createCorrelationId());
+
+    this.sendSpans.set(message.id, span);
+    this.correlationIds.set(message.id, correlationId);
+    const promise = this.admit(message).finally(() => {
+      if (!this.isWaiting(message.id)) {
+        this.releaseInFlight(message);
+      }
+      this.sendSpans.delete(message.id);
+      this.correlationIds.delete(message.id);
+    });
+    this.inFlight.set(key, { messageId: message.id, fingerprint, promise });
+    return promise;
+  }
+
+  private isWaiting(messageId: string): boolean {
+    const status = this.storage.getStatus(messageId)?.status;
+    return status === 'queued' || status === 'scheduled';
+  }
+
+  /**
+   * Register an email recovered from storage as in flight, so resubmitting it does not send it twice
+   */
+  private trackRecovered(message: EmailMessage, provider: 'queue' | 'scheduler'): void {
+    this.inFlight.set(getIdempotencyKey(message), {
+      messageId: message.id,
+      fingerprint: fingerprintMessage(message),
+      promise: Promise.resolve({
+        success: false,
+        messageId: message.id,
+        error: `Email recovered from storage, waiting in the ${provider}`,
+        provider,
+        timestamp: Date.now()
+      })
+    });
+  }
+
+  /**
+   * Sent under its ID, or another email already used its idempotency key
+   */
+  private isAlreadySent(message: EmailMessage): boolean {
+    const record = this.storage.getIdempotencyRecord(getIdempotencyKey(message));
+    const recorded = record !== undefined && (record.expiresAt === undefined || record.expiresAt > Date.now());
+    return this.storage.isSent(message.id) || recorded;
+  }
+
+  /**
+   * Let the message's idempotency key be sent again, once nothing is left to deliver for it
+   */
+  private releaseInFlight(message: EmailMessage): void {
+    const key = getIdempotencyKey(message);
+    if (this.inFlight.get(key)?.messageId === message.id) {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Render a template and send it. The template ID and version are recorded on
+   * the email's status; `options` can set any other message field.
+   */
+  async sendTemplate<V extends TemplateVariables>(
+    template: string | EmailTemplate<V>,
+    vars: V,
+    recipient: Recipient | Recipient[],
+    options: SendTemplateOptions = {}
+  ): Promise<EmailResult> {
+    const { version, ...overrides } = options;
+    let rendered: RenderedTemplate;
+    try {
+      rendered = this.templates.render(template, vars, version);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn('Template rendering failed', {
+        templateId: typeof template === 'string' ? template : template.id,
+        error: errorMessage
+      });
+      return {
+        success: false,
+        error: errorMessage,
+        errorCategory: classifyError(error),
+        errorCode: error instanceof EmailProviderError ? error.code : undefined,
+        provider: 'none',
+        timestamp: Date.now()
+      };
+    }
+
+    return this.sendEmail({
+      id: `${rendered.templateId}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+      timestamp: Date.now(),
+      ...overrides,
+      to: recipient,
+      subject: rendered.subject,
+      body: rendered.text,
+      html: rendered.html,
+      template: { id: rendered.templateId, version: rendered.version }
+    });
+  }
+
+  /**
+   * Send many messages with bounded concurrency and summarize the outcome.
+   * Queued or scheduled messages count as deferred rather than failed.
+   */
+  async sendBatch(messages: EmailMessage[], options: BatchOptions = {}): Promise<BatchReport> {
+    const startedAt = Date.now();
+    const concurrency = Math.max(1, options.concurrency ?? 5);
+    const minResults = options.minResults ?? 10;
+    const results: BatchItemResult[] = [];
+    const providers: BatchReport['providers'] = {};
+    const counts = { sent: 0, failed: 0, deferred: 0 };
+    let next = 0;
+    let stopped = false;
+
+    const sendOne = async (index: number): Promise<void> => {
+      const message = messages[index];
+      const start = Date.now();
+      let result: EmailResult;
+      try {
+        result = await this.sendEmail(message);
+      } catch (error) {
+        result = {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          provider: 'none',
+          timestamp: Date.now()
+        };
+      }
+
+      const outcome = result.success
+        ? 'sent'
+        : result.provider === 'queue' || result.provider === 'scheduler' ? 'deferred' : 'failed';
+      const item: BatchItemResult = {
+        index,
+        messageId: message.id,
+        result,
+        outcome,
+        attempts: this.storage.getStatus(message.id)?.attempts ?? 0,
+        durationMs: Date.now() - start
+      };
+      results.push(item);
+      counts[outcome]++;
+      if (outcome !== 'deferred') {
+        const entry = providers[result.provider] ??= { sent: 0, failed: 0 };
+        entry[outcome]++;
+      }
+
+      try {
+        options.onProgress?.({ item, completed: results.length, total: messages.length, ...counts });
+      } catch (error) {
+        this.logger.error('Batch progress callback failed', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      const decided = counts.sent + counts.failed;
+      if (
+        !stopped &&
+        options.stopOnErrorRate !== undefined &&
+        decided >= Math.min(minResults, messages.length) &&
+        counts.failed / decided > options.stopOnErrorRate
+      ) {
+        stopped = true;
+        this.logger.warn('Batch stopped, error rate exceeded', {
+          failed: counts.failed,
+          completed: decided,
+          stopOnErrorRate: options.stopOnErrorRate
+        });
+      }
+    };
+
+    const worker = async (): Promise<void> => {
+      while (!stopped && next < messages.length) {
+        await sendOne(next++);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, messages.length) }, worker));
+
+    return {
+      total: messages.length,
+      ...counts,
+      skipped: messages.slice(next).map(message => message.id),
+      stopped,
+      results: results.sort((a, b) => a.index - b.index),
+      providers,
+      retries: results.reduce((sum, item) => sum + Math.max(0, item.attempts - 1), 0),
+      startedAt,
+      durationMs: Date.now() - startedAt
+    };
+  }
+
+  /**
+   * Validate, then schedule or dispatch a message that is not a duplicate
+   */
+  private async admit(message: EmailMessage): Promise<EmailResult> {
+    // Sent IDs without a key record, e.g. from storage written by older versions.
+    // With a TTL the key records alone decide, so expired sends can go out again.
+    if (this.options.idempotency?.ttlMs === undefined && this.storage.isSent(message.id)) {
+      const status = this.storage.getStatus(message.id);
       if (status && status.status === 'sent') {
         this.logger.info('Email already sent (idempotency check)', { messageId: message.id });
         return {
@@ -62,6 +487,86 @@ export class EmailService {
       }
     }
 
+    // Reject malformed messages before they reach any provider
+    const issues = [...validateMessage(message, this.options.addressPolicy), ...this.validateRetryOverride(message)];
+    if (issues.length > 0) {
+      const error = `Invalid message: ${issues.map(issue => `${issue.field}: ${issue.message}`).join('; ')}`;
+      this.logger.warn('Email failed validation', { messageId: message.id, issues });
+      this.updateStatus(message.id, {
+        ...this.describeMessage(message),
+        status: 'failed',
+        attempts: 0,
+        error,
+        created: Date.now()
+      });
+      this.events.emit('failed', {
+        messageId: message.id,
+        error,
+        errorCategory: issues[0].category,
+        attempts: 0,
+        deadLettered: false,
+        timestamp: Date.now()
+      });
+
+      return {
+        success: false,
+        error,
+        errorCategory: issues[0].category,
+        provider: 'none',
+        timestamp: Date.now()
+      };
+    }
+
+    message = normalizeMessageAddresses(message);
+    this.warnAboutFlaggedRecipients(message);
+
+    // Hold future deliveries until they are due
+    const sendAt = this.getSendAt(message);
+    if (sendAt !== undefined && sendAt > Date.now()) {
+      return this.schedule(message, sendAt);
+    }
+
+    return this.dispatch(message);
+  }
+
+  /**
+   * Log recipients the address policy lets through but that are likely to bounce or be ignored
+   */
+  private warnAboutFlaggedRecipients(message: EmailMessage): void {
+    getEnvelopeRecipients(message)
+      .map(recipient => checkAddress(recipient.address, this.options.addressPolicy))
+      .filter(check => check.disposable || check.role || check.suggestion)
+      .forEach(check => {
+        this.logger.warn('Recipient address flagged', {
+          messageId: message.id,
+          recipient: check.address,
+          disposable: check.disposable,
+          role: check.role,
+          suggestion: check.suggestion
+        });
+      });
+  }
+
+  /**
+   * Deliver now, or queue when every circuit is open or the rate limit is reached
+   */
+  private async dispatch(message: EmailMessage): Promise<EmailResult> {
+    // Suppressed recipients are turned away before they use a rate-limit token
+    const suppressed = this.rejectIfSuppressed(message);
+    if (suppressed) {
+      return suppressed;
+    }
+
+    if (this.state !== 'running') {
+      this.addToQueue(message, 'paused');
+      return {
+        success: false,
+        error: 'Email service paused. Email queued until it resumes.',
+        provider: 'queue',
+        timestamp: Date.now()
+      };
+    }
+
     // Check if all circuit breakers are open
     const allCircuitBreakersOpen = this.providers.every(provider => {
       const circuitBreaker = this.circuitBreakers.get(provider.name);
@@ -70,7 +575,7 @@ export class EmailService {
 
     if (allCircuitBreakersOpen) {
       this.logger.warn('All circuit breakers are open, queuing email', { messageId: message.id });
-      this.addToQueue(message);
+      this.addToQueue(message, 'circuit-open');
       
       return {
         success: false,
@@ -80,13 +585,45 @@ export class EmailService {
       };
     }
 
+    if (!this.hasProviderCapacity()) {
+      this.logger.warn('All provider quotas exhausted, queuing email', { messageId: message.id });
+      this.addToQueue(message, 'quota-exhausted');
+
+      return {
+        success: false,
+        error: 'All provider quotas exhausted. Email queued for retry.',
+        provider: 'queue',
+        timestamp: Date.now()
+      };
+    }
+
+    // Throttled domains are checked first so they never spend a global token
+    const domains = getRecipientDomains(message);
+    const blockedDomain = this.domainRateLimiter.getBlockedKey(domains);
+    if (blockedDomain !== undefined) {
+      const waitTime = this.domainRateLimiter.getRemainingTime(domains);
+      this.logger.warn('Domain rate limit exceeded', { messageId: message.id, domain: blockedDomain, waitTime });
+      this.events.emit('rate-limited', { messageId: message.id, waitTime, domain: blockedDomain, timestamp: Date.now() });
+      this.sendSpans.get(message.id)?.addEvent('rate-limited', { 'email.domain': blockedDomain, 'email.wait_ms': waitTime });
+      this.addToQueue(message, 'rate-limited');
+
+      return {
+        success: false,
+        error: `Rate limit for ${blockedDomain} exceeded. Queued for processing in ${waitTime}ms`,
+        provider: 'queue',
+        timestamp: Date.now()
+      };
+    }
+
     // Check rate limit
-    if (!(await this.rateLimiter.acquire())) {
+    if (!this.rateLimiter.tryAcquire()) {
       const waitTime = this.rateLimiter.getRemainingTime();
       this.logger.warn('Rate limit exceeded', { messageId: message.id, waitTime });
+      this.events.emit('rate-limited', { messageId: message.id, waitTime, timestamp: Date.now() });
+      this.sendSpans.get(message.id)?.addEvent('rate-limited', { 'email.wait_ms': waitTime });
       
       // Add to queue instead of rejecting
-      this.addToQueue(message);
+      this.addToQueue(message, 'rate-limited');
       
       return {
         success: false,
@@ -96,98 +633,303 @@ export class EmailService {
       };
     }
 
+    this.domainRateLimiter.acquire(domains);
+    return this.deliver(message);
+  }
+
+  /**
+   * Record a successful send under its idempotency key
+   */
+  private rememberSent(message: EmailMessage, result: EmailResult): void {
+    const ttlMs = this.options.idempotency?.ttlMs;
+    const sentAt = Date.now();
+    this.storage.saveIdempotencyRecord({
+      key: getIdempotencyKey(message),
+      messageId: message.id,
+      fingerprint: fingerprintMessage(message),
+      provider: result.provider,
+      providerMessageId: result.messageId,
+      sentAt,
+      expiresAt: ttlMs === undefined ? undefined : sentAt + ttlMs
+    });
+
+    // Expired records are otherwise only dropped when their key is looked up again
+    if (ttlMs !== undefined && sentAt >= this.nextIdempotencySweep) {
+      const removed = this.storage.removeExpiredIdempotencyRecords(sentAt);
+      if (removed > 0) {
+        this.logger.debug('Expired idempotency records removed', { removed });
+      }
+      this.nextIdempotencySweep = sentAt + Math.min(ttlMs, IDEMPOTENCY_SWEEP_INTERVAL_MS);
+    }
+  }
+
+  private rejectIdempotencyConflict(message: EmailMessage, key: string): EmailResult {
+    this.logger.warn('Idempotency key reused with a different message', { messageId: message.id, idempotencyKey: key });
+    return {
+      success: false,
+      error: `Idempotency key "${key}" was already used for a different message`,
+      errorCategory: 'permanent-content',
+      errorCode: 'IDEMPOTENCY_CONFLICT',
+      provider: 'none',
+      timestamp: Date.now()
+    };
+  }
+
+  /**
+   * Send an email that has already been admitted by the rate limiter, tracking
+   * the delivery so drain() and shutdown() can wait for it
+   */
+  private deliver(message: EmailMessage): Promise<EmailResult> {
+    const delivery = this.attemptDelivery(message);
+    this.deliveries.add(delivery);
+    const settle = () => {
+      this.deliveries.delete(delivery);
+      this.releaseInFlight(message);
+      this.notifyIfIdle();
+    };
+    delivery.then(settle, settle);
+    return delivery;
+  }
+
+  private async attemptDelivery(message: EmailMessage): Promise<EmailResult> {
     // Initialize status tracking
     this.updateStatus(message.id, {
-      messageId: message.id,
-      recipient: message.to,
-      subject: message.subject,
+      ...this.describeMessage(message),
       status: 'sending',
       attempts: 0,
       created: Date.now()
     });
 
+    const { attemptTimeout, deadline } = { ...this.options.retry, ...message.retry };
+    const controller = new AbortController();
+    this.activeDeliveries.set(message.id, controller);
+    const deadlineTimer = deadline === undefined ? undefined : setTimeout(() => {
+      controller.abort(new TimeoutError(`Delivery deadline of ${deadline}ms exceeded`, { code: 'DEADLINE_EXCEEDED' }));
+    }, deadline);
+
+    // Deliveries from the queue or the scheduler have no sendEmail span to join
+    const span = this.tracer.startSpan('email.deliver', {
+      parent: this.sendSpans.get(message.id)?.spanContext() ?? parseTraceparent(message.metadata?.traceparent),
+      attributes: {
+        'email.message_id': message.id,
+        'email.wait_ms': Math.max(0, Date.now() - this.getReadyAt(message))
+      }
+    });
+
+    const context: DeliveryContext = {
+      failures: [],
+      retryPolicy: this.getRetryPolicy(message),
+      startedAt: Date.now(),
+      signal: controller.signal,
+      attemptTimeout,
+      span
+    };
+    const { failures } = context;
+
     try {
-      const result = await this.sendWithRetryAndFallback(message);
+      const result = await this.sendWithRetryAndFallback(message, context);
+      span.setAttributes({
+        'email.outcome': result.success ? 'sent' : 'failed',
+        'email.provider': result.provider,
+        'email.attempts': this.storage.getStatus(message.id)?.attempts || 0,
+        'email.error_category': result.errorCategory
+      });
+      span.setStatus(result.success ? 'ok' : 'error', result.error);
       
       if (result.success) {
-        this.sentEmails.add(message.id);
+        this.storage.markSent(message.id);
+        this.rememberSent(message, result);
+        this.deadLetters.remove(message.id);
         this.updateStatus(message.id, {
-          messageId: message.id,
-          recipient: message.to,
-          subject: message.subject,
+          ...this.describeMessage(message),
           status: 'sent',
-          attempts: this.emailStatuses.get(message.id)?.attempts || 0,
+          attempts: this.storage.getStatus(message.id)?.attempts || 0,
           provider: result.provider,
           lastAttempt: Date.now(),
-          created: this.emailStatuses.get(message.id)?.created || Date.now()
+          created: this.storage.getStatus(message.id)?.created || Date.now()
+        });
+        this.recordDeliveryTime(message, 'sent');
+        this.events.emit('sent', {
+          messageId: message.id,
+          provider: result.provider,
+          providerMessageId: result.messageId,
+          attempts: this.storage.getStatus(message.id)?.attempts || 0,
+          timestamp: Date.now()
         });
       } else {
         this.updateStatus(message.id, {
-          messageId: message.id,
-          recipient: message.to,
-          subject: message.subject,
+          ...this.describeMessage(message),
           status: 'failed',
-          attempts: this.emailStatuses.get(message.id)?.attempts || 0,
+          attempts: this.storage.getStatus(message.id)?.attempts || 0,
           error: result.error,
           lastAttempt: Date.now(),
-          created: this.emailStatuses.get(message.id)?.created || Date.now()
+          created: this.storage.getStatus(message.id)?.created || Date.now()
+        });
+        this.addToDeadLetters(message, failures, result.error || 'All providers failed');
+        this.recordDeliveryTime(message, 'failed');
+        this.events.emit('failed', {
+          messageId: message.id,
+          error: result.error || 'All providers failed',
+          errorCategory: result.errorCategory,
+          provider: failures[failures.length - 1]?.provider,
+          attempts: this.storage.getStatus(message.id)?.attempts || 0,
+          deadLettered: true,
+          timestamp: Date.now()
         });
       }
 
       return result;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      span.setAttribute('email.outcome', error instanceof CancelledError ? 'cancelled' : 'failed');
+      span.recordException(error);
+      span.setStatus('error', errorMessage);
+
+      if (error instanceof CancelledError) {
+        this.markCancelled(message.id);
+        return {
+          success: false,
+          error: errorMessage,
+          errorCategory: 'cancelled',
+          errorCode: error.code,
+          provider: 'none',
+          timestamp: Date.now()
+        };
+      }
       
       this.updateStatus(message.id, {
-        messageId: message.id,
-        recipient: message.to,
-        subject: message.subject,
+        ...this.describeMessage(message),
         status: 'failed',
-        attempts: this.emailStatuses.get(message.id)?.attempts || 0,
+        attempts: this.storage.getStatus(message.id)?.attempts || 0,
         error: errorMessage,
         lastAttempt: Date.now(),
-        created: this.emailStatuses.get(message.id)?.created || Date.now()
+        created: this.storage.getStatus(message.id)?.created || Date.now()
       });
 
       this.logger.error('Email sending failed', {
         messageId: message.id,
         error: errorMessage
       });
+      this.addToDeadLetters(message, failures, errorMessage);
+      this.recordDeliveryTime(message, 'failed');
+      this.events.emit('failed', {
+        messageId: message.id,
+        error: errorMessage,
+        errorCategory: classifyError(error),
+        provider: failures[failures.length - 1]?.provider,
+        attempts: this.storage.getStatus(message.id)?.attempts || 0,
+        deadLettered: true,
+        timestamp: Date.now()
+      });
 
       return {
         success: false,
         error: errorMessage,
+        errorCategory: classifyError(error),
+        errorCode: error instanceof EmailProviderError ? error.code : undefined,
         provider: 'none',
         timestamp: Date.now()
       };
+    } finally {
+      clearTimeout(deadlineTimer);
+      this.activeDeliveries.delete(message.id);
+      span.end();
     }
   }
 
   /**
    * Send email with retry logic and provider fallback
    */
-  private async sendWithRetryAndFallback(message: EmailMessage): Promise<EmailResult> {
+  private async sendWithRetryAndFallback(
+    message: EmailMessage,
+    context: DeliveryContext
+  ): Promise<EmailResult> {
     let lastError: Error | null = null;
+    const { maxRetryTime } = context.retryPolicy;
     
-    for (const provider of this.providers) {
+    const providers = this.routing.order(this.providers, {
+      message,
+      getStats: name => this.providerStats.get(name)
+    });
+    if (providers.length === 0) {
+      this.logger.error('No provider routed for email', { messageId: message.id, tags: message.tags });
+    }
+
+    for (const [index, provider] of providers.entries()) {
       const circuitBreaker = this.circuitBreakers.get(provider.name);
       if (!circuitBreaker) continue;
 
+      if (maxRetryTime !== undefined && Date.now() - context.startedAt >= maxRetryTime) {
+        this.logger.warn('Retry time budget exhausted', { messageId: message.id, maxRetryTime });
+        break;
+      }
+
+      if (context.signal.aborted) {
+        throw context.signal.reason;
+      }
+
       try {
-        const result = await this.sendWithRetry(message, provider, circuitBreaker);
+        const result = await this.sendWithRetry(message, provider, circuitBreaker, context);
         this.logger.info('Email sent successfully', {
           messageId: message.id,
           provider: provider.name,
-          attempts: this.emailStatuses.get(message.id)?.attempts || 0
+          attempts: this.storage.getStatus(message.id)?.attempts || 0
         });
         return result;
       } catch (error) {
+        // Cancelled, or out of time: no other provider gets a turn
+        if (context.signal.aborted) {
+          throw context.signal.reason;
+        }
+
         lastError = error instanceof Error ? error : new Error('Unknown error');
+        const category = classifyError(error);
+
+        // Permanent rejections of the message itself would fail on every provider
+        if (!shouldFallback(category)) {
+          if (category === 'permanent-recipient') {
+            this.suppressRejectedRecipients(message, lastError, provider.name);
+          }
+          this.logger.error('Email permanently rejected', {
+            messageId: message.id,
+            provider: provider.name,
+            category,
+            error: lastError.message
+          });
+
+          return {
+            success: false,
+            error: lastError.message,
+            errorCategory: category,
+            errorCode: lastError instanceof EmailProviderError ? lastError.code : undefined,
+            provider: provider.name,
+            timestamp: Date.now()
+          };
+        }
+
         this.logger.warn('Provider failed, trying next', {
           messageId: message.id,
           provider: provider.name,
+          category,
           error: lastError.message
         });
+
+        const next = providers[index + 1];
+        if (next) {
+          context.span.addEvent('provider-fallback', {
+            'email.from_provider': provider.name,
+            'email.to_provider': next.name,
+            'email.error_category': category
+          });
+          this.events.emit('provider-fallback', {
+            messageId: message.id,
+            from: provider.name,
+            to: next.name,
+            error: lastError.message,
+            category,
+            timestamp: Date.now()
+          });
+        }
       }
     }
 
@@ -200,6 +942,8 @@ export class EmailService {
     return {
       success: false,
       error: errorMessage,
+      errorCategory: lastError ? classifyError(lastError) : undefined,
+      errorCode: lastError instanceof EmailProviderError ? lastError.code : undefined,
       provider: 'none',
       timestamp: Date.now()
     };
@@ -211,62 +955,376 @@ export class EmailService {
   private async sendWithRetry(
     message: EmailMessage,
     provider: EmailProvider,
-    circuitBreaker: CircuitBreaker
+    circuitBreaker: CircuitBreaker,
+    context: DeliveryContext
   ): Promise<EmailResult> {
-    const { maxAttempts, baseDelay, maxDelay, backoffFactor } = this.options.retry;
+    const { failures, retryPolicy } = context;
     let attempt = 0;
+    let previousDelay = 0;
+
+    const quota = this.quotas.get(provider.name);
+
+    while (attempt < retryPolicy.maxAttempts) {
+      if (context.signal.aborted) {
+        throw context.signal.reason;
+      }
+
+      // An open breaker would reject the call without reaching the provider: no attempt, no quota used
+      if (circuitBreaker.getState() === 'open') {
+        throw new CircuitOpenError();
+      }
+
+      // Move on to the next provider straight away instead of waiting for capacity
+      if (quota && !quota.tryAcquire()) {
+        throw new QuotaExhaustedError(provider.name, quota.getWaitTime());
+      }
 
-    while (attempt < maxAttempts) {
       attempt++;
       this.incrementAttemptCount(message.id);
+      this.events.emit('attempt-started', {
+        messageId: message.id,
+        provider: provider.name,
+        attempt,
+        timestamp: Date.now()
+      });
 
+      this.logger.debug('Send attempt started', { messageId: message.id, provider: provider.name, attempt });
+      const attemptStartedAt = Date.now();
+      const attemptSpan = this.tracer.startSpan('email.attempt', {
+        parent: context.span.spanContext(),
+        attributes: { 'email.message_id': message.id, 'email.provider': provider.name, 'email.attempt': attempt }
+      });
       try {
-        const result = await circuitBreaker.execute(() => provider.sendEmail(message));
+        const result = await circuitBreaker.execute(() => this.callProvider(provider, message, context));
+        this.recordProviderCall(provider.name, true, attemptStartedAt);
+        attemptSpan.setStatus('ok').end();
+        this.recordAttempt(message.id, {
+          provider: provider.name,
+          attempt,
+          startedAt: attemptStartedAt,
+          endedAt: Date.now(),
+          latencyMs: Date.now() - attemptStartedAt,
+          success: true,
+          circuitState: circuitBreaker.getState()
+        });
         return result;
       } catch (error) {
-        const isLastAttempt = attempt === maxAttempts;
+        const category = classifyError(error);
+        attemptSpan
+          .setAttribute('email.error_category', category)
+          .recordException(error)
+          .setStatus('error', error instanceof Error ? error.message : undefined)
+          .end();
+        // Rejections of the message itself say nothing about the provider's health
+        if (!(error instanceof CircuitOpenError) && !(error instanceof CancelledError)) {
+          this.recordProviderCall(provider.name, !shouldFallback(category), attemptStartedAt);
+        }
+        // No point waiting for a provider whose breaker is rejecting calls
+        const delay = isRetryable(category) && !(error instanceof CircuitOpenError) && !context.signal.aborted
+          ? retryPolicy.nextDelay({
+              attempt,
+              elapsedMs: Date.now() - context.startedAt,
+              previousDelay,
+              retryAfterMs: error instanceof EmailProviderError ? error.retryAfterMs : undefined,
+              error
+            })
+          : null;
+        const isLastAttempt = delay === null;
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        failures.push({
+          provider: provider.name,
+          attempt,
+          error: errorMessage,
+          category,
+          timestamp: Date.now()
+        });
+        this.recordAttempt(message.id, {
+          provider: provider.name,
+          attempt,
+          startedAt: attemptStartedAt,
+          endedAt: Date.now(),
+          latencyMs: Date.now() - attemptStartedAt,
+          success: false,
+          errorCategory: category,
+          errorCode: error instanceof EmailProviderError ? error.code : undefined,
+          error: errorMessage,
+          circuitState: circuitBreaker.getState(),
+          backoffMs: delay ?? undefined
+        });
         
         this.logger.warn('Send attempt failed', {
           messageId: message.id,
           provider: provider.name,
           attempt,
+          category,
           error: errorMessage,
           isLastAttempt
         });
+        this.events.emit('attempt-failed', {
+          messageId: message.id,
+          provider: provider.name,
+          attempt,
+          error: errorMessage,
+          category,
+          retryInMs: delay ?? undefined,
+          timestamp: Date.now()
+        });
 
-        if (isLastAttempt) {
+        if (delay === null) {
           throw error;
         }
 
-        // Calculate delay with exponential backoff
-        const delay = Math.min(
-          baseDelay * Math.pow(backoffFactor, attempt - 1),
-          maxDelay
-        );
+        previousDelay = delay;
+        this.logger.debug('Waiting before retry', { messageId: message.id, provider: provider.name, delayMs: delay });
 
-        await this.delay(delay);
+        const backoffSpan = this.tracer.startSpan('email.backoff', {
+          parent: context.span.spanContext(),
+          attributes: { 'email.provider': provider.name, 'email.attempt': attempt, 'email.backoff_ms': delay }
+        });
+        try {
+          await this.delay(delay, context.signal);
+        } finally {
+          backoffSpan.end();
+        }
       }
     }
 
-    throw new Error(`Max attempts (${maxAttempts}) exceeded`);
+    throw new Error(`Max attempts (${retryPolicy.maxAttempts}) exceeded`);
   }
 
   /**
-   * Add email to queue for later processing
+   * Call the provider, rejecting as soon as the attempt times out or the delivery is aborted,
+   * even if the provider ignores its signal
+   */
+  private callProvider(provider: EmailProvider, message: EmailMessage, context: DeliveryContext): Promise<EmailResult> {
+    const controller = new AbortController();
+    const abort = () => controller.abort(context.signal.reason);
+    context.signal.addEventListener('abort', abort, { once: true });
+    const timeout = context.attemptTimeout;
+    const timer = timeout === undefined ? undefined : setTimeout(() => {
+      controller.abort(new TimeoutError(`${provider.name}: Attempt timed out after ${timeout}ms`, { provider: provider.name }));
+    }, timeout);
+
+    return new Promise<EmailResult>((resolve, reject) => {
+      controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+      provider.sendEmail(message, controller.signal).then(resolve, reject);
+    }).finally(() => {
+      clearTimeout(timer);
+      context.signal.removeEventListener('abort', abort);
+    });
+  }
+
+  /**
+   * Fail a message with a suppressed recipient, or return undefined when none are
    */
-  private addToQueue(message: EmailMessage): void {
-    this.emailQueue.push(message);
+  private rejectIfSuppressed(message: EmailMessage): EmailResult | undefined {
+    const entries = this.suppressions.match(getEnvelopeRecipients(message).map(recipient => recipient.address));
+    if (entries.length === 0) {
+      return undefined;
+    }
+
+    const error = `Suppressed recipient: ${entries.map(entry => `${entry.address} (${entry.reason})`).join(', ')}`;
+    this.logger.warn('Email to suppressed recipient not sent', {
+      messageId: message.id,
+      recipients: entries.map(entry => entry.address)
+    });
     this.updateStatus(message.id, {
+      ...this.describeMessage(message),
+      status: 'suppressed',
+      attempts: 0,
+      error,
+      created: this.storage.getStatus(message.id)?.created || Date.now()
+    });
+    this.releaseInFlight(message);
+    this.events.emit('suppressed', {
       messageId: message.id,
-      recipient: message.to,
-      subject: message.subject,
+      recipients: entries.map(entry => entry.address),
+      reasons: entries.map(entry => entry.reason),
+      timestamp: Date.now()
+    });
+
+    return {
+      success: false,
+      error,
+      errorCategory: 'permanent-recipient',
+      errorCode: 'SUPPRESSED',
+      provider: 'none',
+      timestamp: Date.now()
+    };
+  }
+
+  /**
+   * Remember addresses a provider rejected permanently. When the provider does
+   * not say which recipient it rejected, only a single-recipient message is conclusive.
+   */
+  private suppressRejectedRecipients(message: EmailMessage, error: Error, provider: string): void {
+    if (this.options.suppression?.autoSuppress === false) {
+      return;
+    }
+
+    const envelope = getEnvelopeRecipients(message);
+    const rejected = error instanceof EmailProviderError && error.recipients
+      ? error.recipients
+      : envelope.length === 1 ? [envelope[0].address] : [];
+    rejected.forEach(address => {
+      this.suppressions.add(address, 'hard-bounce', { detail: error.message, source: provider });
+      this.logger.info('Recipient added to suppression list', { messageId: message.id, address, provider });
+    });
+  }
+
+  /**
+   * A custom retry policy cannot be rebuilt from options, so a message may only
+   * override the timeouts, which apply whatever the policy
+   */
+  private validateRetryOverride(message: EmailMessage): ValidationIssue[] {
+    const overridden = Object.keys(message.retry || {}).filter(key => key !== 'attemptTimeout' && key !== 'deadline');
+    if (!this.options.retryPolicy || overridden.length === 0) {
+      return [];
+    }
+    return [{
+      field: 'retry',
+      message: `${overridden.join(', ')} cannot be overridden per message when a custom retryPolicy is configured`,
+      category: 'permanent-content'
+    }];
+  }
+
+  /**
+   * Use the message's retry overrides when present, otherwise the service policy
+   */
+  private getRetryPolicy(message: EmailMessage): RetryPolicy {
+    // validateRetryOverride has made sure a custom policy is only overridden on timeouts
+    if (!message.retry || this.options.retryPolicy) {
+      return this.retryPolicy;
+    }
+
+    const options: RetryOptions = { ...this.options.retry, ...message.retry };
+    return createRetryPolicy(options);
+  }
+
+  /**
+   * Keep the full message of an email that exhausted every provider
+   */
+  private addToDeadLetters(message: EmailMessage, failures: DeliveryFailure[], error: string): void {
+    this.deadLetters.add({
+      message,
+      failures,
+      error,
+      deadLetteredAt: Date.now(),
+      replayCount: 0
+    });
+    this.logger.warn('Email moved to dead-letter queue', { messageId: message.id, error });
+  }
+
+  private getSendAt(message: EmailMessage): number | undefined {
+    if (message.sendAt !== undefined) {
+      return message.sendAt;
+    }
+    return message.delayMs !== undefined ? Date.now() + message.delayMs : undefined;
+  }
+
+  /**
+   * Hand an email to the scheduler until its send time
+   */
+  private schedule(message: EmailMessage, sendAt: number): EmailResult {
+    const entry: ScheduledEmail = { message, sendAt, scheduledAt: Date.now() };
+    this.scheduler.schedule(entry);
+    this.storage.saveScheduledEmail(entry);
+    this.updateStatus(message.id, {
+      ...this.describeMessage(message),
+      status: 'scheduled',
+      attempts: 0,
+      scheduledFor: sendAt,
+      created: Date.now()
+    });
+
+    this.logger.info('Email scheduled', { messageId: message.id, sendAt: new Date(sendAt).toISOString() });
+    this.events.emit('scheduled', { messageId: message.id, sendAt, timestamp: Date.now() });
+
+    return {
+      success: false,
+      messageId: message.id,
+      error: `Email scheduled for ${new Date(sendAt).toISOString()}`,
+      provider: 'scheduler',
+      timestamp: Date.now()
+    };
+  }
+
+  /**
+   * Move a due email from the scheduler into the normal send pipeline
+   */
+  private releaseScheduled(entry: ScheduledEmail): void {
+    const { message } = entry;
+    this.storage.removeScheduledEmail(message.id);
+
+    if (this.isAlreadySent(message)) {
+      this.logger.info('Scheduled email already sent, skipping', { messageId: message.id });
+      this.releaseInFlight(message);
+      return;
+    }
+
+    this.logger.info('Releasing scheduled email', { messageId: message.id });
+    void this.dispatch(message);
+  }
+
+  /**
+   * Restore emails that were still scheduled when the service last stopped;
+   * any that became due while it was down are released right away
+   */
+  private recoverSchedule(): void {
+    const recovered = this.storage.getScheduledEmails();
+    if (recovered.length === 0) {
+      return;
+    }
+
+    recovered.forEach(entry => {
+      this.scheduler.schedule(entry);
+      this.trackRecovered(entry.message, 'scheduler');
+    });
+    this.logger.info('Recovered scheduled emails from storage', { count: recovered.length });
+  }
+
+  /**
+   * Add email to queue for later processing
+   */
+  private addToQueue(message: EmailMessage, reason: EmailServiceEvents['queued']['reason']): void {
+    const entry = { message, enqueuedAt: Date.now() };
+    this.emailQueue.enqueue(entry);
+    this.storage.saveQueuedEmail(entry);
+    this.updateStatus(message.id, {
+      ...this.describeMessage(message),
       status: 'queued',
       attempts: 0,
       created: Date.now()
     });
     
-    this.logger.info('Email added to queue', { messageId: message.id });
+    this.logger.info('Email added to queue', {
+      messageId: message.id,
+      priority: message.priority || 'normal'
+    });
+    this.events.emit('queued', {
+      messageId: message.id,
+      priority: message.priority || 'normal',
+      reason,
+      queueSize: this.emailQueue.size(),
+      timestamp: Date.now()
+    });
+    this.processQueue();
+  }
+
+  /**
+   * Restore emails that were still queued when the service last stopped
+   */
+  private recoverQueue(): void {
+    const recovered = this.storage.getQueuedEmails();
+    if (recovered.length === 0) {
+      return;
+    }
+
+    recovered.forEach(entry => {
+      this.emailQueue.enqueue(entry);
+      this.trackRecovered(entry.message, 'queue');
+    });
+    this.logger.info('Recovered queued emails from storage', { count: recovered.length });
     this.processQueue();
   }
 
@@ -274,14 +1332,14 @@ export class EmailService {
    * Process queued emails
    */
   private async processQueue(): Promise<void> {
-    if (this.isProcessingQueue || this.emailQueue.length === 0) {
+    if (this.isProcessingQueue || this.state !== 'running' || this.emailQueue.size() === 0) {
       return;
     }
 
     this.isProcessingQueue = true;
-    this.logger.info('Processing queue', { queueSize: this.emailQueue.length });
+    this.logger.info('Processing queue', { queueSize: this.emailQueue.size() });
 
-    while (this.emailQueue.length > 0) {
+    while (this.state === 'running' && this.emailQueue.size() > 0) {
       // Check if all circuit breakers are still open
       const allCircuitBreakersOpen = this.providers.every(provider => {
         const circuitBreaker = this.circuitBreakers.get(provider.name);
@@ -289,47 +1347,321 @@ export class EmailService {
       });
 
       if (allCircuitBreakersOpen) {
-        this.logger.info('All circuit breakers still open, pausing queue processing');
-        // Wait for circuit breakers to potentially reset
-        await this.delay(5000); // Wait 5 seconds before checking again
+        // Wait until the first circuit lets a probe through
+        const waitTime = Math.min(
+          ...this.providers.map(provider => this.circuitBreakers.get(provider.name)?.getRemainingTime() ?? 0)
+        );
+        this.logger.info('All circuit breakers still open, pausing queue processing', { waitTime });
+        await this.waitForQueue(Math.max(waitTime, 1));
         continue;
       }
 
-      if (await this.rateLimiter.acquire()) {
-        const message = this.emailQueue.shift();
-        if (message) {
-          try {
-            await this.sendEmail(message);
-          } catch (error) {
-            this.logger.error('Failed to send queued email', {
-              messageId: message.id,
-              error: error instanceof Error ? error.message : 'Unknown error'
-            });
-          }
-        }
-      } else {
+      if (!this.hasProviderCapacity()) {
+        const waitTime = Math.min(...Array.from(this.quotas.values()).map(quota => quota.getWaitTime()));
+        this.logger.info('All provider quotas exhausted, pausing queue processing', { waitTime });
+        await this.waitForQueue(Math.min(Math.max(waitTime, 1), 5000));
+        continue;
+      }
+
+      // Mail for a throttled domain stays queued without holding up other domains
+      const isReady = (entry: QueuedEmail) =>
+        this.domainRateLimiter.getBlockedKey(getRecipientDomains(entry.message)) === undefined;
+      const queued = this.emailQueue.toArray();
+      if (!queued.some(isReady)) {
+        const waitTime = Math.min(
+          ...queued.map(entry => this.domainRateLimiter.getRemainingTime(getRecipientDomains(entry.message)))
+        );
+        await this.waitForQueue(Math.max(waitTime, 1));
+        continue;
+      }
+
+      if (this.rateLimiter.getAvailableTokens() < 1) {
         // Wait for rate limit to reset
         const waitTime = this.rateLimiter.getRemainingTime();
-        await this.delay(waitTime);
+        await this.waitForQueue(waitTime);
+        continue;
+      }
+
+      const entry = this.emailQueue.dequeue(Date.now(), isReady);
+      if (!entry) {
+        continue;
+      }
+      const { message } = entry;
+
+      // A crash between sending and leaving the queue leaves a sent email behind
+      if (this.isAlreadySent(message)) {
+        this.logger.info('Queued email already sent, skipping', { messageId: message.id });
+        this.storage.removeQueuedEmail(message.id);
+        this.releaseInFlight(message);
+        continue;
+      }
+
+      // Recipients may have been suppressed while their email waited; checked before it takes a token
+      if (this.rejectIfSuppressed(message)) {
+        this.storage.removeQueuedEmail(message.id);
+        continue;
+      }
+
+      this.rateLimiter.tryAcquire();
+      this.domainRateLimiter.acquire(getRecipientDomains(message));
+      try {
+        await this.deliver(message);
+      } catch (error) {
+        this.logger.error('Failed to send queued email', {
+          messageId: message.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } finally {
+        // Kept in storage until the delivery settles, so a crash mid-send leaves it to be recovered
+        this.storage.removeQueuedEmail(message.id);
       }
     }
 
     this.isProcessingQueue = false;
     this.logger.info('Queue processing completed');
+    this.notifyIfIdle();
+  }
+
+  /**
+   * Wait before the queue is checked again; pause() and shutdown() cut the wait short
+   */
+  private waitForQueue(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.queueWait = undefined;
+        resolve();
+      }, ms);
+      this.queueWait = { timer, resolve };
+    });
+  }
+
+  private wakeQueue(): void {
+    if (this.queueWait) {
+      clearTimeout(this.queueWait.timer);
+      this.queueWait.resolve();
+      this.queueWait = undefined;
+    }
+  }
+
+  /**
+   * Idle once nothing is being delivered and the queue is empty, or paused
+   */
+  private isIdle(): boolean {
+    return this.deliveries.size === 0 && (this.state !== 'running' || this.emailQueue.size() === 0);
+  }
+
+  private notifyIfIdle(): void {
+    if (this.isIdle()) {
+      Array.from(this.idleWaiters).forEach(waiter => waiter());
+    }
+  }
+
+  /**
+   * Stop delivering queued email. In-flight deliveries finish; new and due
+   * scheduled emails are queued until resume() is called.
+   */
+  pause(): void {
+    if (this.state !== 'running') return;
+
+    this.state = 'paused';
+    this.wakeQueue();
+    this.logger.info('Email service paused', { queueSize: this.emailQueue.size() });
+    this.notifyIfIdle();
+  }
+
+  resume(): void {
+    if (this.state !== 'paused') return;
+
+    this.state = 'running';
+    this.logger.info('Email service resumed', { queueSize: this.emailQueue.size() });
+    this.processQueue();
+  }
+
+  /**
+   * Wait until the queue is empty and no delivery is in flight. While paused,
+   * only in-flight deliveries are waited for. Resolves false on timeout.
+   */
+  drain(options: DrainOptions = {}): Promise<boolean> {
+    if (this.isIdle()) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise(resolve => {
+      const done = (drained: boolean) => {
+        clearTimeout(timer);
+        this.idleWaiters.delete(onIdle);
+        resolve(drained);
+      };
+      const onIdle = () => done(true);
+      const timer = options.timeout === undefined ? undefined : setTimeout(() => done(false), options.timeout);
+      this.idleWaiters.add(onIdle);
+    });
+  }
+
+  /**
+   * Stop accepting email and wait for in-flight deliveries to finish. Queued
+   * and scheduled emails are not sent; they stay in storage, so a new service
+   * on the same storage picks them up, and are returned to the caller.
+   */
+  async shutdown(options: DrainOptions = {}): Promise<ShutdownResult> {
+    const scheduled = this.scheduler.list();
+    this.scheduler.clear();
+    this.state = 'stopped';
+    this.wakeQueue();
+
+    const drained = await this.drain(options);
+    const queued = this.emailQueue.toArray();
+    this.logger.info('Email service shut down', { drained, queued: queued.length, scheduled: scheduled.length });
+
+    return { drained, queued, scheduled };
   }
 
   /**
    * Get email status
    */
   getEmailStatus(messageId: string): EmailStatus | undefined {
-    return this.emailStatuses.get(messageId);
+    return this.storage.getStatus(messageId);
+  }
+
+  /**
+   * Every provider attempt made for an email, oldest first, including those of earlier
+   * deliveries that were replayed; undefined for unknown emails
+   */
+  getDeliveryHistory(messageId: string): DeliveryAttempt[] | undefined {
+    const status = this.storage.getStatus(messageId);
+    return status && [...(status.history || [])];
   }
 
   /**
    * Get all email statuses
    */
   getAllEmailStatuses(): EmailStatus[] {
-    return Array.from(this.emailStatuses.values());
+    return this.storage.getAllStatuses();
+  }
+
+  /**
+   * List emails waiting for their send time, earliest first
+   */
+  listScheduled(): ScheduledEmail[] {
+    return this.scheduler.list();
+  }
+
+  /**
+   * Cancel a scheduled email before it is due; returns false when it is not scheduled
+   */
+  cancelScheduled(messageId: string): boolean {
+    const entry = this.scheduler.cancel(messageId);
+    if (!entry) {
+      return false;
+    }
+
+    this.storage.removeScheduledEmail(messageId);
+    this.releaseInFlight(entry.message);
+    this.markCancelled(messageId);
+    return true;
+  }
+
+  /**
+   * Cancel an email that is scheduled, queued or being delivered. A running
+   * attempt is aborted and no further retries are made. Returns false when the
+   * email is not pending.
+   */
+  cancelEmail(messageId: string): boolean {
+    if (this.cancelScheduled(messageId)) {
+      return true;
+    }
+
+    const queued = this.emailQueue.remove(messageId);
+    if (queued) {
+      this.storage.removeQueuedEmail(messageId);
+      this.releaseInFlight(queued.message);
+      this.markCancelled(messageId);
+      return true;
+    }
+
+    const delivery = this.activeDeliveries.get(messageId);
+    if (delivery) {
+      // deliver() marks the email cancelled once the attempt has stopped
+      delivery.abort(new CancelledError(messageId));
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * List suppressed addresses, oldest first
+   */
+  listSuppressions(filter?: (entry: SuppressionEntry) => boolean): SuppressionEntry[] {
+    return this.suppressions.list(filter);
+  }
+
+  getSuppression(address: string): SuppressionEntry | undefined {
+    return this.suppressions.get(address);
+  }
+
+  /**
+   * Stop sending to an address, e.g. after an unsubscribe or a complaint
+   */
+  addSuppression(address: string, reason: SuppressionReason = 'manual', options?: AddSuppressionOptions): SuppressionEntry {
+    const entry = this.suppressions.add(address, reason, options);
+    this.logger.info('Recipient added to suppression list', { address: entry.address, reason });
+    return entry;
+  }
+
+  /**
+   * Allow sending to an address again; returns false when it was not suppressed
+   */
+  removeSuppression(address: string): boolean {
+    return this.suppressions.remove(address);
+  }
+
+  /**
+   * List emails that failed on every provider, oldest first
+   */
+  listDeadLetters(filter?: (letter: DeadLetter) => boolean): DeadLetter[] {
+    return this.deadLetters.list(filter);
+  }
+
+  /**
+   * Send a dead-lettered email again; it leaves the dead-letter queue once sent
+   */
+  async replayDeadLetter(messageId: string): Promise<EmailResult | undefined> {
+    const letter = this.deadLetters.get(messageId);
+    if (!letter) {
+      return undefined;
+    }
+
+    this.deadLetters.markReplayed(messageId);
+    this.logger.info('Replaying dead letter', {
+      messageId,
+      replayCount: letter.replayCount + 1
+    });
+
+    return this.sendEmail(letter.message);
+  }
+
+  /**
+   * Replay every dead letter matching the filter, one at a time
+   */
+  async replayAll(filter?: (letter: DeadLetter) => boolean): Promise<EmailResult[]> {
+    const results: EmailResult[] = [];
+    for (const letter of this.deadLetters.list(filter)) {
+      const result = await this.replayDeadLetter(letter.message.id);
+      if (result) {
+        results.push(result);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Discard dead letters matching the filter (all by default), returning how many were removed
+   */
+  purgeDeadLetters(filter?: (letter: DeadLetter) => boolean): number {
+    const purged = this.deadLetters.purge(filter);
+    this.logger.info('Dead letters purged', { count: purged });
+    return purged;
   }
 
   /**
@@ -340,7 +1672,7 @@ export class EmailService {
     const circuitBreakerStates = Object.fromEntries(
       Array.from(this.circuitBreakers.entries()).map(([name, cb]) => [
         name,
-        { state: cb.getState(), failures: cb.getFailureCount() }
+        { state: cb.getState(), failures: cb.getFailureCount(), failureRate: cb.getFailureRate() }
       ])
     );
 
@@ -350,13 +1682,42 @@ export class EmailService {
       failed: statuses.filter(s => s.status === 'failed').length,
       pending: statuses.filter(s => s.status === 'pending').length,
       queued: statuses.filter(s => s.status === 'queued').length,
-      queueSize: this.emailQueue.length,
+      state: this.state,
+      cancelled: statuses.filter(s => s.status === 'cancelled').length,
+      suppressed: statuses.filter(s => s.status === 'suppressed').length,
+      suppressionListSize: this.suppressions.size(),
+      scheduled: this.scheduler.size(),
+      queueSize: this.emailQueue.size(),
+      queueByPriority: this.emailQueue.sizeByPriority(),
+      deadLetters: this.deadLetters.size(),
       rateLimitTokens: this.rateLimiter.getAvailableTokens(),
+      domainRateLimitTokens: this.domainRateLimiter.getAvailableTokens(),
+      providerHealth: Object.fromEntries(
+        this.providers.map(provider => [provider.name, this.providerStats.get(provider.name)])
+      ),
+      routingStrategy: this.routing.name,
+      providerQuotas: Object.fromEntries(
+        Array.from(this.quotas.entries()).map(([name, quota]) => [name, quota.getStatus()])
+      ),
       circuitBreakers: circuitBreakerStates,
       recentLogs: this.logger.getRecentLogs(10)
     };
   }
 
+  /**
+   * Metrics in the Prometheus text exposition format, for an HTTP layer to serve
+   */
+  getMetrics(): string {
+    return renderPrometheus(this.metrics);
+  }
+
+  /**
+   * The registry behind getMetrics, e.g. to add application metrics or read values directly
+   */
+  getMetricsRegistry(): MetricsRegistry {
+    return this.metrics;
+  }
+
   /**
    * Reset circuit breakers
    */
@@ -369,27 +1730,145 @@ export class EmailService {
    * Clear all data (for testing)
    */
   clear(): void {
-    this.emailStatuses.clear();
-    this.sentEmails.clear();
-    this.emailQueue.length = 0;
+    this.storage.clear();
+    this.emailQueue.clear();
+    this.scheduler.clear();
+    this.inFlight.clear();
     this.resetCircuitBreakers();
+    this.providerStats.clear();
+    this.metrics.reset();
     this.logger.clear();
   }
 
+  /**
+   * Counters follow the lifecycle events; gauges are read from the service when collected
+   */
+  private registerMetrics(): void {
+    const { metrics } = this;
+    const sent = metrics.counter('email_sent_total', 'Emails delivered, by provider');
+    const failed = metrics.counter('email_failed_total', 'Emails that could not be delivered, by last provider tried and error category');
+    const attempts = metrics.counter('email_attempts_total', 'Provider attempts started, by provider');
+    const attemptFailures = metrics.counter('email_attempt_failures_total', 'Failed provider attempts, by provider and error category');
+    const retries = metrics.counter('email_retries_total', 'Failed attempts that will be retried on the same provider, by provider');
+    const fallbacks = metrics.counter('email_fallbacks_total', 'Switches to the next provider, by the provider left and the one tried next');
+    const queued = metrics.counter('email_queued_total', 'Emails added to the queue, by reason');
+    const rateLimited = metrics.counter('email_rate_limited_total', 'Sends held back by the global or a domain rate limit');
+    const suppressed = metrics.counter('email_suppressed_total', 'Emails not sent because a recipient is suppressed');
+    const cancelled = metrics.counter('email_cancelled_total', 'Emails cancelled with cancelEmail');
+
+    this.events.on('sent', event => sent.inc({ provider: event.provider }));
+    this.events.on('failed', event => failed.inc({ provider: event.provider ?? 'none', category: event.errorCategory ?? 'unknown' }));
+    this.events.on('attempt-started', event => attempts.inc({ provider: event.provider }));
+    this.events.on('attempt-failed', event => {
+      attemptFailures.inc({ provider: event.provider, category: event.category });
+      if (event.retryInMs !== undefined) {
+        retries.inc({ provider: event.provider });
+      }
+    });
+    this.events.on('provider-fallback', event => fallbacks.inc({ from: event.from, to: event.to }));
+    this.events.on('queued', event => queued.inc({ reason: event.reason }));
+    this.events.on('rate-limited', () => rateLimited.inc());
+    this.events.on('suppressed', () => suppressed.inc());
+    this.events.on('cancelled', () => cancelled.inc());
+
+    metrics.gauge('email_queue_depth', 'Emails waiting in the queue, by priority', gauge => {
+      Object.entries(this.emailQueue.sizeByPriority()).forEach(([priority, size]) => gauge.set(size, { priority }));
+    });
+    metrics.gauge('email_scheduled', 'Emails held until their send time', gauge => gauge.set(this.scheduler.size()));
+    metrics.gauge('email_in_flight', 'Deliveries currently running', gauge => gauge.set(this.activeDeliveries.size));
+    metrics.gauge('email_dead_letters', 'Emails in the dead-letter queue', gauge => gauge.set(this.deadLetters.size()));
+    metrics.gauge('email_rate_limit_tokens', 'Tokens left in the global rate limiter', gauge => {
+      gauge.set(this.rateLimiter.getAvailableTokens());
+    });
+    metrics.gauge('email_circuit_breaker_state', 'Circuit breaker state by provider: 0 closed, 1 half-open, 2 open', gauge => {
+      this.circuitBreakers.forEach((breaker, provider) => gauge.set(CIRCUIT_STATE_VALUES[breaker.getState()], { provider }));
+    });
+  }
+
+  private recordProviderCall(provider: string, success: boolean, startedAt: number): void {
+    const latencyMs = Date.now() - startedAt;
+    this.providerStats.record(provider, success, latencyMs);
+    this.providerLatency.observe(latencyMs / 1000, { provider, outcome: success ? 'success' : 'failure' });
+  }
+
+  private recordDeliveryTime(message: EmailMessage, outcome: 'sent' | 'failed'): void {
+    this.deliveryDuration.observe(Math.max(0, Date.now() - this.getReadyAt(message)) / 1000, { outcome });
+  }
+
+  /**
+   * When the message could first have been sent: its timestamp, or its send time when scheduled
+   */
+  private getReadyAt(message: EmailMessage): number {
+    return message.sendAt ?? message.timestamp + (message.delayMs ?? 0);
+  }
+
   // Utility methods
+  private hasProviderCapacity(): boolean {
+    return Array.from(this.quotas.values()).some(quota => quota.hasCapacity());
+  }
+
+  private markCancelled(messageId: string): void {
+    const status = this.storage.getStatus(messageId);
+    if (status) {
+      this.updateStatus(messageId, { ...status, status: 'cancelled' });
+    }
+    this.logger.info('Email cancelled', { messageId });
+    this.events.emit('cancelled', { messageId, timestamp: Date.now() });
+  }
+
+  /**
+   * Status fields that come from the message itself
+   */
+  private describeMessage(
+    message: EmailMessage
+  ): Pick<EmailStatus, 'messageId' | 'recipient' | 'subject' | 'templateId' | 'templateVersion' | 'correlationId'> {
+    const correlationId = message.metadata?.correlationId ?? this.correlationIdFor(message.id);
+    return {
+      messageId: message.id,
+      recipient: formatRecipients(message.to),
+      subject: message.subject,
+      ...(message.template && { templateId: message.template.id, templateVersion: message.template.version }),
+      ...(correlationId && { correlationId })
+    };
+  }
+
+  private correlationIdFor(messageId: string): string | undefined {
+    return this.correlationIds.get(messageId) ?? this.storage.getStatus(messageId)?.correlationId;
+  }
+
   private updateStatus(messageId: string, status: EmailStatus): void {
-    this.emailStatuses.set(messageId, status);
+    // Statuses are rebuilt at each step, but the attempt history outlives them all
+    const history = status.history ?? this.storage.getStatus(messageId)?.history;
+    this.storage.saveStatus({ ...status, messageId, ...(history && { history }) });
+  }
+
+  private recordAttempt(messageId: string, attempt: DeliveryAttempt): void {
+    const status = this.storage.getStatus(messageId);
+    if (status) {
+      // Oldest attempts go first, so replays and re-submits cannot grow a status without bound
+      const maxHistory = Math.max(1, this.options.maxHistory ?? DEFAULT_MAX_HISTORY);
+      this.storage.saveStatus({ ...status, history: [...(status.history || []), attempt].slice(-maxHistory) });
+    }
   }
 
   private incrementAttemptCount(messageId: string): void {
-    const status = this.emailStatuses.get(messageId);
+    const status = this.storage.getStatus(messageId);
     if (status) {
-      status.attempts++;
-      this.emailStatuses.set(messageId, status);
+      this.storage.saveStatus({ ...status, attempts: status.attempts + 1 });
     }
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      }, { once: true });
+    });
   }
 }
\ No newline at end of file
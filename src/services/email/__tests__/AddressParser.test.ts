@@ -0,0 +1,110 @@
+import { checkAddress, getAddressProblems } from '../message/addressParser';
+import { decodePunycode, domainToASCII, domainToUnicode, encodePunycode } from '../message/punycode';
+import { normalizeMessageAddresses } from '../message/addresses';
+
+describe('AddressParser', () => {
+  it('should normalize whitespace and domain case but keep the local part', () => {
+    const check = checkAddress('  John.Doe+news@Example.COM ');
+
+    expect(check).toMatchObject({
+      valid: true,
+      address: 'John.Doe+news@example.com',
+      localPart: 'John.Doe+news',
+      domain: 'example.com'
+    });
+  });
+
+  it('should accept quoted local parts, domain literals and internationalized addresses', () => {
+    expect(checkAddress('"john doe"@example.com').address).toBe('"john doe"@example.com');
+    expect(checkAddress('"john"@example.com').address).toBe('john@example.com');
+    expect(checkAddress('"a\\"b@c"@example.com').address).toBe('"a\\"b@c"@example.com');
+    expect(checkAddress('user@[192.0.2.1]').valid).toBe(true);
+    expect(checkAddress('user@[IPv6:2001:DB8::1]').address).toBe('user@[IPv6:2001:db8::1]');
+    expect(checkAddress('用户@例子.广告')).toMatchObject({ valid: true, domain: '例子.广告' });
+    expect(checkAddress('иван@Пример.Испытание')).toMatchObject({
+      address: 'иван@xn--e1afmkfd.xn--80akhbyknj4f',
+      domain: 'пример.испытание'
+    });
+  });
+
+  it('should reject malformed addresses with a reason', () => {
+    const cases: Array<[string, string]> = [
+      ['not-an-address', 'must contain an @'],
+      ['@example.com', 'Local part is empty'],
+      ['john..doe@example.com', 'misplaced dots'],
+      ['john doe@example.com', 'whitespace'],
+      ['a@b@example.com', 'invalid characters'],
+      ['"unterminated@example.com', 'Unterminated'],
+      ['john@localhost', 'at least two labels'],
+      ['john@-example.com', 'Invalid domain label'],
+      ['john@example..com', 'empty label'],
+      ['john@example.123', 'numeric'],
+      ['john@[300.1.1.1]', 'Invalid domain literal'],
+      ['john@xn--zz.com', 'Invalid punycode'],
+      [`${'a'.repeat(65)}@example.com`, 'longer than 64 octets'],
+      [`john@${'a'.repeat(64)}.com`, 'longer than 63 characters']
+    ];
+
+    cases.forEach(([address, reason]) => {
+      const check = checkAddress(address);
+      expect([address, check.valid, check.error]).toEqual([address, false, expect.stringContaining(reason)]);
+    });
+  });
+
+  it('should flag disposable domains, role accounts and typos', () => {
+    expect(checkAddress('ann@mailinator.com').disposable).toBe(true);
+    expect(checkAddress('ann@eu.mailinator.com').disposable).toBe(true);
+    expect(checkAddress('ann@mycorp.test', { disposableDomains: ['mycorp.test'] }).disposable).toBe(true);
+    expect(checkAddress('Support+billing@example.com').role).toBe(true);
+    expect(checkAddress('ann@example.com')).toMatchObject({ disposable: false, role: false, suggestion: undefined });
+
+    expect(checkAddress('ann@gmial.com').suggestion).toBe('ann@gmail.com');
+    expect(checkAddress('ann@hotmial.com').suggestion).toBe('ann@hotmail.com');
+    expect(checkAddress('ann@example.con').suggestion).toBe('ann@example.com');
+    expect(checkAddress('ann@gmail.com').suggestion).toBeUndefined();
+    expect(checkAddress('ann@acme.com').suggestion).toBeUndefined();
+    expect(checkAddress('ann@protonmail.ch').suggestion).toBeUndefined();
+    expect(checkAddress('ann@gmail.con').suggestion).toBe('ann@gmail.com');
+  });
+
+  it('should only turn flags into problems when the policy asks for it', () => {
+    const check = checkAddress('info@gmial.com');
+
+    expect(getAddressProblems(check)).toEqual([]);
+    expect(getAddressProblems(check, { rejectRoleAccounts: true, rejectTypos: true })).toEqual([
+      'Role account address: info@gmial.com',
+      'Possible typo in info@gmial.com, did you mean info@gmail.com?'
+    ]);
+    expect(getAddressProblems(checkAddress('nope'))[0]).toContain('Invalid email address: nope');
+  });
+
+  it('should encode and decode punycode', () => {
+    expect(encodePunycode('bücher')).toBe('bcher-kva');
+    expect(encodePunycode('münchen')).toBe('mnchen-3ya');
+    expect(decodePunycode('bcher-kva')).toBe('bücher');
+    expect(domainToASCII('пример.испытание')).toBe('xn--e1afmkfd.xn--80akhbyknj4f');
+    expect(domainToUnicode('xn--e1afmkfd.xn--80akhbyknj4f')).toBe('пример.испытание');
+    expect(() => decodePunycode('ü-abc')).toThrow('Invalid punycode');
+  });
+
+  it('should normalize message addresses and keep their form', () => {
+    const message = normalizeMessageAddresses({
+      id: 'm1',
+      to: ['Ann@Example.COM', 'Bob <bob@EXAMPLE.com>', 'carol@example.com'],
+      cc: [{ address: 'dan@Bücher.de', name: 'Dan' }],
+      from: 'not-an-address',
+      subject: 'Hi',
+      body: 'Hi',
+      priority: 'normal',
+      timestamp: 0
+    });
+
+    expect(message.to).toEqual([
+      'Ann@example.com',
+      { name: 'Bob', address: 'bob@example.com' },
+      'carol@example.com'
+    ]);
+    expect(message.cc).toEqual([{ address: 'dan@xn--bcher-kva.de', name: 'Dan' }]);
+    expect(message.from).toBe('not-an-address');
+  });
+});
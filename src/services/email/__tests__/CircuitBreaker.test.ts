@@ -1,4 +1,5 @@
 import { CircuitBreaker } from '../utils/CircuitBreaker';
+import { CircuitOpenError, PermanentRecipientError } from '../errors';
 
 describe('CircuitBreaker', () => {
   let circuitBreaker: CircuitBreaker;
@@ -90,6 +91,20 @@ describe('CircuitBreaker', () => {
     expect(circuitBreaker.getState()).toBe('open'); // Should go back to open after failure
   });
 
+  it('should report half-open once the reset timeout has passed, before any call', async () => {
+    for (let i = 0; i < 3; i++) {
+      await circuitBreaker.execute(async () => {
+        throw new Error('Operation failed');
+      }).catch(() => undefined);
+    }
+    expect(circuitBreaker.getState()).toBe('open');
+
+    await new Promise(resolve => setTimeout(resolve, 1100));
+
+    expect(circuitBreaker.getState()).toBe('half-open');
+    await expect(circuitBreaker.execute(async () => 'ok')).resolves.toBe('ok');
+  });
+
   it('should reset failure count on successful operation', async () => {
     const failingOperation = async () => {
       throw new Error('Operation failed');
@@ -112,4 +127,172 @@ describe('CircuitBreaker', () => {
     await circuitBreaker.execute(successfulOperation);
     expect(circuitBreaker.getFailureCount()).toBe(0);
   });
-});
\ No newline at end of file
+
+  it('should reject with a CircuitOpenError when open', async () => {
+    const failingOperation = async () => {
+      throw new Error('Operation failed');
+    };
+
+    for (let i = 0; i < 3; i++) {
+      await circuitBreaker.execute(failingOperation).catch(() => undefined);
+    }
+
+    await expect(circuitBreaker.execute(failingOperation)).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+
+  it('should not count permanent recipient errors against the breaker', async () => {
+    const rejectedRecipient = async () => {
+      throw new PermanentRecipientError('Mailbox does not exist');
+    };
+
+    for (let i = 0; i < 5; i++) {
+      await expect(circuitBreaker.execute(rejectedRecipient)).rejects.toThrow('Mailbox does not exist');
+    }
+
+    expect(circuitBreaker.getState()).toBe('closed');
+    expect(circuitBreaker.getFailureCount()).toBe(0);
+  });
+
+  it('should report state transitions', async () => {
+    const transitions: string[] = [];
+    const breaker = new CircuitBreaker(
+      { failureThreshold: 1, resetTimeout: 0, monitoringWindow: 5000 },
+      (from, to) => transitions.push(`${from}->${to}`)
+    );
+
+    await breaker.execute(async () => {
+      throw new Error('Operation failed');
+    }).catch(() => undefined);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await breaker.execute(async () => 'ok');
+    await breaker.execute(async () => 'ok');
+    breaker.reset();
+
+    expect(transitions).toEqual(['closed->open', 'open->half-open', 'half-open->closed']);
+  });
+
+  describe('failure-rate mode', () => {
+    const fail = async () => {
+      throw new Error('Operation failed');
+    };
+    const succeed = async () => 'ok';
+
+    it('should wait for the minimum volume before judging the failure rate', async () => {
+      const breaker = new CircuitBreaker({
+        failureThreshold: 1,
+        resetTimeout: 1000,
+        monitoringWindow: 5000,
+        mode: 'rate',
+        failureRateThreshold: 50,
+        minimumRequests: 4
+      });
+
+      await breaker.execute(fail).catch(() => undefined);
+      await breaker.execute(fail).catch(() => undefined);
+      expect(breaker.getState()).toBe('closed');
+
+      await breaker.execute(succeed);
+      await breaker.execute(succeed);
+      expect(breaker.getState()).toBe('closed');
+      expect(breaker.getFailureRate()).toBe(50);
+
+      await breaker.execute(fail).catch(() => undefined);
+      expect(breaker.getState()).toBe('open');
+    });
+
+    it('should stay closed while the failure rate is below the threshold', async () => {
+      const breaker = new CircuitBreaker({
+        failureThreshold: 1,
+        resetTimeout: 1000,
+        monitoringWindow: 5000,
+        mode: 'rate',
+        failureRateThreshold: 50,
+        minimumRequests: 4
+      });
+
+      for (let i = 0; i < 6; i++) {
+        await breaker.execute(succeed);
+      }
+      await breaker.execute(fail).catch(() => undefined);
+      await breaker.execute(fail).catch(() => undefined);
+
+      expect(breaker.getState()).toBe('closed');
+    });
+  });
+
+  describe('half-open probing', () => {
+    const trip = async (breaker: CircuitBreaker) => {
+      await breaker.execute(async () => {
+        throw new Error('Operation failed');
+      }).catch(() => undefined);
+    };
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    it('should need the configured number of probes to close', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 10, monitoringWindow: 5000, halfOpenProbes: 3 });
+      await trip(breaker);
+      await wait(20);
+
+      await breaker.execute(async () => 'ok');
+      await breaker.execute(async () => 'ok');
+      expect(breaker.getState()).toBe('half-open');
+      await breaker.execute(async () => 'ok');
+      expect(breaker.getState()).toBe('closed');
+    });
+
+    it('should limit concurrent half-open requests', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 10, monitoringWindow: 5000, halfOpenMaxConcurrent: 1 });
+      await trip(breaker);
+      await wait(20);
+
+      const probe = breaker.execute(() => wait(30).then(() => 'ok'));
+      await expect(breaker.execute(async () => 'ok')).rejects.toBeInstanceOf(CircuitOpenError);
+      await expect(probe).resolves.toBe('ok');
+    });
+
+    it('should count slow calls as failures', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000, monitoringWindow: 5000, slowCallThreshold: 10 });
+
+      await expect(breaker.execute(() => wait(25).then(() => 'slow'))).resolves.toBe('slow');
+      await breaker.execute(() => wait(25).then(() => 'slow'));
+
+      expect(breaker.getState()).toBe('open');
+    });
+
+    it('should grow the reset timeout on consecutive trips and restore it once closed', async () => {
+      const breaker = new CircuitBreaker({
+        failureThreshold: 1,
+        resetTimeout: 10,
+        monitoringWindow: 5000,
+        halfOpenProbes: 1,
+        resetTimeoutMultiplier: 2,
+        maxResetTimeout: 30
+      });
+
+      await trip(breaker);
+      expect(breaker.getResetTimeout()).toBe(10);
+
+      await wait(15);
+      await trip(breaker); // failed probe
+      expect(breaker.getResetTimeout()).toBe(20);
+
+      await wait(25);
+      await trip(breaker);
+      expect(breaker.getResetTimeout()).toBe(30);
+
+      await wait(35);
+      await breaker.execute(async () => 'ok');
+      expect(breaker.getState()).toBe('closed');
+      expect(breaker.getResetTimeout()).toBe(10);
+    });
+
+    it('should report how long an open circuit stays closed to probes', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000, monitoringWindow: 5000 });
+      expect(breaker.getRemainingTime()).toBe(0);
+
+      await trip(breaker);
+      expect(breaker.getRemainingTime()).toBeGreaterThan(900);
+      expect(breaker.getRemainingTime()).toBeLessThanOrEqual(1000);
+    });
+  });
+});
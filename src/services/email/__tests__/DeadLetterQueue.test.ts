@@ -0,0 +1,73 @@
+import { vi } from 'vitest';
+import { DeadLetterQueue } from '../utils/DeadLetterQueue';
+import { InMemoryStorage } from '../storage/InMemoryStorage';
+import { DeadLetter } from '../types';
+
+describe('DeadLetterQueue', () => {
+  let storage: InMemoryStorage;
+  let deadLetters: DeadLetterQueue;
+
+  beforeEach(() => {
+    storage = new InMemoryStorage();
+    deadLetters = new DeadLetterQueue(storage, { maxSize: 2, retentionMs: 60000 });
+  });
+
+  const createDeadLetter = (id: string, deadLetteredAt: number = Date.now()): DeadLetter => ({
+    message: {
+      id,
+      to: 'test@example.com',
+      subject: 'Test Subject',
+      body: 'Test Body',
+      timestamp: Date.now()
+    },
+    failures: [{ provider: 'Provider A', attempt: 1, error: 'Failed', category: 'transient', timestamp: deadLetteredAt }],
+    error: 'Failed',
+    deadLetteredAt,
+    replayCount: 0
+  });
+
+  it('should evict the oldest dead letters beyond the maximum size', () => {
+    const now = Date.now();
+    deadLetters.add(createDeadLetter('a', now - 3000));
+    deadLetters.add(createDeadLetter('b', now - 2000));
+    deadLetters.add(createDeadLetter('c', now - 1000));
+
+    expect(deadLetters.list().map(letter => letter.message.id)).toEqual(['b', 'c']);
+  });
+
+  it('should discard dead letters older than the retention period', () => {
+    deadLetters.add(createDeadLetter('expired', Date.now() - 120000));
+    deadLetters.add(createDeadLetter('fresh'));
+
+    expect(deadLetters.list().map(letter => letter.message.id)).toEqual(['fresh']);
+  });
+
+  it('should merge failure history when a message is dead-lettered again', () => {
+    deadLetters.add(createDeadLetter('a'));
+    deadLetters.markReplayed('a');
+    deadLetters.add(createDeadLetter('a'));
+
+    const letter = deadLetters.get('a')!;
+    expect(letter.failures).toHaveLength(2);
+    expect(letter.replayCount).toBe(1);
+  });
+
+  it('should look dead letters up by ID and drop them once expired', () => {
+    deadLetters.add(createDeadLetter('fresh'));
+    storage.saveDeadLetter(createDeadLetter('expired', Date.now() - 120000));
+    const scan = vi.spyOn(storage, 'getDeadLetters');
+
+    expect(deadLetters.get('fresh')!.message.id).toBe('fresh');
+    expect(deadLetters.get('expired')).toBeUndefined();
+    expect(scan).not.toHaveBeenCalled();
+    expect(storage.getDeadLetter('expired')).toBeUndefined();
+  });
+
+  it('should purge only dead letters matching the filter', () => {
+    deadLetters.add(createDeadLetter('a'));
+    deadLetters.add(createDeadLetter('b'));
+
+    expect(deadLetters.purge(letter => letter.message.id === 'a')).toBe(1);
+    expect(deadLetters.size()).toBe(1);
+  });
+});
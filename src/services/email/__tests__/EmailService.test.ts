@@ -1,6 +1,13 @@
+import { vi } from 'vitest';
 import { EmailService } from '../EmailService';
-import { MockProviderA, MockProviderB } from '../index';
-import { EmailMessage } from '../types';
+import { MockProviderA, MockProviderB, InMemoryStorage } from '../index';
+import { EmailMessage, EmailServiceOptions, RetryOptions } from '../types';
+import { RateLimitedError } from '../errors';
+import { TagRoutingStrategy, WeightedRoundRobinStrategy } from '../utils/RoutingStrategy';
+import { TemplateRegistry } from '../templates/TemplateRegistry';
+import { Counter, Histogram } from '../utils/Metrics';
+import { BasicTracer, InMemorySpanExporter } from '../utils/Tracing';
+import { RingBufferSink } from '../utils/Logger';
 
 describe('EmailService', () => {
   let emailService: EmailService;
@@ -70,6 +77,66 @@ describe('EmailService', () => {
     });
   });
 
+  describe('Validation', () => {
+    it('should reject invalid messages before reaching any provider', async () => {
+      let providerCalls = 0;
+      providerA.sendEmail = async () => {
+        providerCalls++;
+        throw new Error('Should not be called');
+      };
+
+      const message = { ...createTestMessage(), to: ['not-an-address'], headers: { Subject: 'Injected' } };
+      const result = await emailService.sendEmail(message);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCategory).toBe('permanent-recipient');
+      expect(result.error).toContain('not-an-address');
+      expect(result.error).toContain('Header Subject');
+      expect(providerCalls).toBe(0);
+      expect(emailService.getEmailStatus(message.id)!.status).toBe('failed');
+    });
+
+    it('should send to multiple recipients with display names', async () => {
+      providerA.setFailureRate(0);
+      const message: EmailMessage = {
+        ...createTestMessage(),
+        to: ['Test User <test@example.com>', { address: 'other@example.com' }],
+        cc: ['cc@example.com'],
+        html: '<p>Test Body</p>'
+      };
+
+      const result = await emailService.sendEmail(message);
+
+      expect(result.success).toBe(true);
+      expect(emailService.getEmailStatus(message.id)!.recipient).toBe('Test User <test@example.com>, other@example.com');
+    });
+
+    it('should reject addresses the policy rules out without using a rate-limit token', async () => {
+      const strictService = new EmailService([providerA], {
+        retry: { maxAttempts: 1, baseDelay: 100, maxDelay: 1000, backoffFactor: 2 },
+        rateLimit: { maxRequests: 1, windowMs: 5000 },
+        circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+        addressPolicy: { rejectTypos: true, rejectDisposable: true },
+        enableLogging: false
+      });
+      providerA.setFailureRate(0);
+      const send = vi.spyOn(providerA, 'sendEmail');
+
+      const typo = await strictService.sendEmail({ ...createTestMessage('typo'), to: 'ann@gmial.com' });
+      const disposable = await strictService.sendEmail({ ...createTestMessage('throwaway'), to: 'ann@mailinator.com' });
+      const valid = await strictService.sendEmail({ ...createTestMessage('valid'), to: 'Ann <Ann@Bücher.DE>' });
+
+      expect(typo).toMatchObject({ success: false, errorCategory: 'permanent-recipient' });
+      expect(typo.error).toContain('did you mean ann@gmail.com?');
+      expect(disposable.error).toContain('Disposable email address');
+      expect(valid.success).toBe(true);
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(send.mock.calls[0][0].to).toEqual({ name: 'Ann', address: 'Ann@xn--bcher-kva.de' });
+
+      strictService.clear();
+    });
+  });
+
   describe('Fallback Mechanism', () => {
     it('should fallback to Provider B when Provider A fails', async () => {
       providerA.setFailureRate(1); // Always fail
@@ -116,6 +183,92 @@ describe('EmailService', () => {
       const status = emailService.getEmailStatus(message.id);
       expect(status!.attempts).toBe(3);
     });
+
+    it('should apply per-message retry overrides', async () => {
+      providerA.setFailureRate(1);
+      providerB.setFailureRate(0);
+
+      const message = { ...createTestMessage(), retry: { maxAttempts: 1 } };
+      const result = await emailService.sendEmail(message);
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('Provider B');
+      expect(emailService.getEmailStatus(message.id)!.attempts).toBe(2);
+    });
+
+    it('should keep a custom retry policy and reject per-message overrides it cannot honour', async () => {
+      providerA.setFailureRate(1);
+      providerB.setFailureRate(0);
+      const customService = new EmailService([providerA, providerB], {
+        retry: { maxAttempts: 3, baseDelay: 100, maxDelay: 1000, backoffFactor: 2 },
+        retryPolicy: { maxAttempts: 1, nextDelay: () => null },
+        rateLimit: { maxRequests: 10, windowMs: 5000 },
+        circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+        enableLogging: false
+      });
+
+      const rejected = await customService.sendEmail({ ...createTestMessage('custom-1'), retry: { maxAttempts: 5 } });
+      const timed = await customService.sendEmail({ ...createTestMessage('custom-2'), retry: { attemptTimeout: 1000 } });
+
+      expect(rejected.success).toBe(false);
+      expect(rejected.error).toContain('retry: maxAttempts cannot be overridden');
+      expect(timed.success).toBe(true);
+      expect(customService.getEmailStatus('custom-2')!.attempts).toBe(2);
+    });
+  });
+
+  describe('Error Categories', () => {
+    it('should not retry or fall back on a permanent recipient error', async () => {
+      providerA.setFailureRate(0);
+      providerB.setFailureRate(0);
+      let providerBCalls = 0;
+      const originalSend = providerB.sendEmail;
+      providerB.sendEmail = async (message: EmailMessage) => {
+        providerBCalls++;
+        return originalSend.call(providerB, message);
+      };
+
+      const message = { ...createTestMessage(), to: 'invalid@example.com' };
+      const result = await emailService.sendEmail(message);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCategory).toBe('permanent-recipient');
+      expect(emailService.getEmailStatus(message.id)!.attempts).toBe(1);
+      expect(providerBCalls).toBe(0);
+      expect(emailService.getStatistics().circuitBreakers['Provider A'].failures).toBe(0);
+    });
+
+    it('should wait for the retry-after hint on rate-limited errors', async () => {
+      let callCount = 0;
+      const originalSend = providerA.sendEmail;
+      providerA.setFailureRate(0);
+      providerA.sendEmail = async (message: EmailMessage) => {
+        callCount++;
+        if (callCount === 1) {
+          throw new RateLimitedError('Slow down', { retryAfterMs: 300 });
+        }
+        return originalSend.call(providerA, message);
+      };
+
+      const start = Date.now();
+      const result = await emailService.sendEmail(createTestMessage());
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('Provider A');
+      expect(Date.now() - start).toBeGreaterThanOrEqual(300);
+    });
+
+    it('should fall back when the retry-after hint exceeds the maximum delay', async () => {
+      providerB.setFailureRate(0);
+      providerA.sendEmail = async () => {
+        throw new RateLimitedError('Daily quota exhausted', { retryAfterMs: 60000 });
+      };
+
+      const result = await emailService.sendEmail(createTestMessage());
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('Provider B');
+    });
   });
 
   describe('Idempotency', () => {
@@ -135,6 +288,478 @@ describe('EmailService', () => {
       const stats = emailService.getStatistics();
       expect(stats.sent).toBe(1);
     });
+
+    it('should send concurrent duplicates only once', async () => {
+      providerA.setFailureRate(0);
+      const send = vi.spyOn(providerA, 'sendEmail');
+      const message = createTestMessage();
+
+      const [first, second] = await Promise.all([emailService.sendEmail(message), emailService.sendEmail({ ...message })]);
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(second).toEqual(first);
+    });
+
+    it('should deduplicate by idempotencyKey across message IDs', async () => {
+      providerA.setFailureRate(0);
+      const send = vi.spyOn(providerA, 'sendEmail');
+
+      const first = await emailService.sendEmail({ ...createTestMessage('a'), idempotencyKey: 'order-42' });
+      const second = await emailService.sendEmail({ ...createTestMessage('b'), idempotencyKey: 'order-42' });
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(second).toMatchObject({ success: true, provider: 'Provider A', messageId: first.messageId });
+    });
+
+    it('should reject a different message reusing an idempotency key', async () => {
+      providerA.setFailureRate(0);
+      const message = { ...createTestMessage(), idempotencyKey: 'order-42' };
+
+      const [, inFlight] = await Promise.all([
+        emailService.sendEmail(message),
+        emailService.sendEmail({ ...message, subject: 'Other' })
+      ]);
+      const afterSend = await emailService.sendEmail({ ...message, body: 'Other' });
+
+      for (const result of [inFlight, afterSend]) {
+        expect(result).toMatchObject({ success: false, errorCode: 'IDEMPOTENCY_CONFLICT', errorCategory: 'permanent-content' });
+      }
+      expect(emailService.getEmailStatus(message.id)?.status).toBe('sent');
+    });
+
+    it('should allow a resend once the idempotency TTL expires', async () => {
+      const service = new EmailService([providerA], {
+        retry: { maxAttempts: 1, baseDelay: 1, maxDelay: 1, backoffFactor: 1 },
+        rateLimit: { maxRequests: 10, windowMs: 5000 },
+        circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+        idempotency: { ttlMs: 1000 },
+        enableLogging: false
+      });
+      providerA.setFailureRate(0);
+      const send = vi.spyOn(providerA, 'sendEmail');
+      const now = vi.spyOn(Date, 'now');
+      const message = createTestMessage();
+
+      await service.sendEmail(message);
+      await service.sendEmail(message);
+      expect(send).toHaveBeenCalledTimes(1);
+
+      const later = Date.now() + 1500;
+      now.mockReturnValue(later);
+      await service.sendEmail(message);
+      now.mockRestore();
+
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should evict expired idempotency records without looking them up again', async () => {
+      const storage = new InMemoryStorage();
+      const service = new EmailService([providerA], {
+        retry: { maxAttempts: 1, baseDelay: 1, maxDelay: 1, backoffFactor: 1 },
+        rateLimit: { maxRequests: 10, windowMs: 5000 },
+        circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+        idempotency: { ttlMs: 1000 },
+        storage,
+        enableLogging: false
+      });
+      providerA.setFailureRate(0);
+      const now = vi.spyOn(Date, 'now');
+
+      await service.sendEmail(createTestMessage('old-1'));
+      await service.sendEmail(createTestMessage('old-2'));
+      expect(storage.getIdempotencyRecord('old-1')).toBeDefined();
+
+      now.mockReturnValue(Date.now() + 1500);
+      await service.sendEmail(createTestMessage('new'));
+      now.mockRestore();
+
+      expect(storage.getIdempotencyRecord('old-1')).toBeUndefined();
+      expect(storage.getIdempotencyRecord('old-2')).toBeUndefined();
+      expect(storage.getIdempotencyRecord('new')).toBeDefined();
+    });
+
+    it('should not send a queued email again when it is resubmitted while waiting', async () => {
+      const service = new EmailService([providerA], {
+        retry: { maxAttempts: 1, baseDelay: 1, maxDelay: 1, backoffFactor: 1 },
+        rateLimit: { maxRequests: 1, windowMs: 1000 },
+        circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+        enableLogging: false
+      });
+      providerA.setFailureRate(0);
+      const send = vi.spyOn(providerA, 'sendEmail');
+
+      await service.sendEmail(createTestMessage('m0'));
+      const queued = await service.sendEmail(createTestMessage('m1'));
+      const resubmitted = await service.sendEmail(createTestMessage('m1'));
+      await service.drain();
+
+      expect(queued.provider).toBe('queue');
+      expect(resubmitted).toEqual(queued);
+      expect(send.mock.calls.map(([message]) => message.id)).toEqual(['m0', 'm1']);
+      expect(service.getEmailStatus('m1')?.status).toBe('sent');
+    });
+  });
+
+  describe('Cancellation and Timeouts', () => {
+    const createService = (retry: Partial<RetryOptions>, rateLimit = { maxRequests: 10, windowMs: 5000 }) =>
+      new EmailService([providerA], {
+        retry: { maxAttempts: 2, baseDelay: 10, maxDelay: 10000, backoffFactor: 1, ...retry },
+        rateLimit,
+        circuitBreaker: { failureThreshold: 5, resetTimeout: 5000, monitoringWindow: 10000 },
+        enableLogging: false
+      });
+
+    // Never settles unless the attempt is aborted
+    const hang = (signals: AbortSignal[]) => (_message: EmailMessage, signal?: AbortSignal) => {
+      signals.push(signal!);
+      return new Promise<never>(() => {});
+    };
+
+    it('should abort attempts that exceed the attempt timeout', async () => {
+      const service = createService({ attemptTimeout: 30 });
+      const signals: AbortSignal[] = [];
+      vi.spyOn(providerA, 'sendEmail').mockImplementation(hang(signals));
+
+      const result = await service.sendEmail(createTestMessage());
+
+      expect(result).toMatchObject({ success: false, errorCategory: 'transient' });
+      expect(result.error).toContain('timed out after 30ms');
+      expect(signals).toHaveLength(2);
+      expect(signals.every(signal => signal.aborted)).toBe(true);
+      expect(service.getEmailStatus('test-1')?.attempts).toBe(2);
+    });
+
+    it('should stop retrying once the deadline passes', async () => {
+      const service = createService({ maxAttempts: 5, baseDelay: 5000, deadline: 100 });
+      providerA.setFailureRate(1);
+      const startedAt = Date.now();
+
+      const result = await service.sendEmail(createTestMessage());
+
+      expect(Date.now() - startedAt).toBeLessThan(2000);
+      expect(result).toMatchObject({ success: false, errorCode: 'DEADLINE_EXCEEDED', errorCategory: 'transient' });
+      expect(service.getEmailStatus('test-1')?.status).toBe('failed');
+      expect(service.listDeadLetters()).toHaveLength(1);
+      expect(service.getMetrics()).toContain('email_failed_total{provider="Provider A",category="transient"} 1');
+    });
+
+    it('should cancel an email waiting in retry backoff', async () => {
+      const service = createService({ baseDelay: 5000 });
+      providerA.setFailureRate(1);
+      const cancelled = vi.fn();
+      service.on('cancelled', cancelled);
+      service.on('attempt-failed', ({ messageId }) => service.cancelEmail(messageId));
+      const send = vi.spyOn(providerA, 'sendEmail');
+
+      const result = await service.sendEmail(createTestMessage());
+
+      expect(result).toMatchObject({ success: false, errorCategory: 'cancelled', errorCode: 'CANCELLED' });
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(service.getEmailStatus('test-1')?.status).toBe('cancelled');
+      expect(service.listDeadLetters()).toHaveLength(0);
+      expect(cancelled).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'test-1' }));
+    });
+
+    it('should abort a running attempt when cancelled', async () => {
+      const service = createService({});
+      const signals: AbortSignal[] = [];
+      vi.spyOn(providerA, 'sendEmail').mockImplementation(hang(signals));
+
+      const pending = service.sendEmail(createTestMessage());
+      await vi.waitFor(() => expect(signals).toHaveLength(1));
+      expect(service.cancelEmail('test-1')).toBe(true);
+
+      expect(await pending).toMatchObject({ success: false, errorCategory: 'cancelled' });
+      expect(signals[0].aborted).toBe(true);
+      expect(service.getStatistics().circuitBreakers['Provider A'].failures).toBe(0);
+    });
+
+    it('should remove a queued email when cancelled', async () => {
+      const service = createService({}, { maxRequests: 1, windowMs: 60000 });
+      providerA.setFailureRate(0);
+
+      await service.sendEmail(createTestMessage('first'));
+      await service.sendEmail(createTestMessage('second'));
+
+      expect(service.cancelEmail('second')).toBe(true);
+      expect(service.getStatistics().queueSize).toBe(0);
+      expect(service.getEmailStatus('second')?.status).toBe('cancelled');
+      expect(service.cancelEmail('second')).toBe(false);
+      service.clear();
+    });
+  });
+
+  describe('Pause, Drain and Shutdown', () => {
+    const createService = (maxRequests = 10, storage = new InMemoryStorage()) =>
+      new EmailService([providerA], {
+        retry: { maxAttempts: 1, baseDelay: 1, maxDelay: 1, backoffFactor: 1 },
+        rateLimit: { maxRequests, windowMs: 60000 },
+        circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+        storage,
+        enableLogging: false
+      });
+
+    it('should queue while paused and deliver after resume', async () => {
+      const service = createService();
+      providerA.setFailureRate(0);
+      const queued = vi.fn();
+      service.on('queued', queued);
+
+      service.pause();
+      const result = await service.sendEmail(createTestMessage());
+      expect(result).toMatchObject({ success: false, provider: 'queue' });
+      expect(queued).toHaveBeenCalledWith(expect.objectContaining({ reason: 'paused' }));
+      expect(await service.drain()).toBe(true);
+      expect(service.getEmailStatus('test-1')?.status).toBe('queued');
+
+      service.resume();
+      expect(await service.drain({ timeout: 5000 })).toBe(true);
+      expect(service.getEmailStatus('test-1')?.status).toBe('sent');
+    });
+
+    it('should report a drain timeout while a delivery is still running', async () => {
+      const service = createService();
+      vi.spyOn(providerA, 'sendEmail').mockImplementation(() => new Promise<never>(() => {}));
+
+      const pending = service.sendEmail(createTestMessage());
+
+      expect(await service.drain({ timeout: 50 })).toBe(false);
+      service.cancelEmail('test-1');
+      await pending;
+      expect(await service.drain({ timeout: 50 })).toBe(true);
+    });
+
+    it('should let in-flight sends finish and return what is left on shutdown', async () => {
+      const storage = new InMemoryStorage();
+      const service = createService(1, storage);
+      providerA.setFailureRate(0);
+
+      const inFlight = service.sendEmail(createTestMessage('in-flight'));
+      await service.sendEmail(createTestMessage('waiting'));
+      await service.sendEmail({ ...createTestMessage('later'), delayMs: 60000 });
+
+      const startedAt = Date.now();
+      const result = await service.shutdown();
+
+      expect(Date.now() - startedAt).toBeLessThan(2000);
+      expect(await inFlight).toMatchObject({ success: true });
+      expect(result.drained).toBe(true);
+      expect(result.queued.map(entry => entry.message.id)).toEqual(['waiting']);
+      expect(result.scheduled.map(entry => entry.message.id)).toEqual(['later']);
+      expect(storage.getQueuedEmails().map(entry => entry.message.id)).toEqual(['waiting']);
+      expect(storage.getScheduledEmails().map(entry => entry.message.id)).toEqual(['later']);
+      expect(await service.sendEmail(createTestMessage('after'))).toMatchObject({ success: false, provider: 'none' });
+    });
+  });
+
+  describe('Templates', () => {
+    const createService = (templates: TemplateRegistry) =>
+      new EmailService([providerA], {
+        retry: { maxAttempts: 1, baseDelay: 1, maxDelay: 1, backoffFactor: 1 },
+        rateLimit: { maxRequests: 10, windowMs: 5000 },
+        circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+        templates,
+        enableLogging: false
+      });
+
+    it('should render and send a template, recording its version', async () => {
+      const templates = new TemplateRegistry();
+      templates.register({ id: 'welcome', subject: 'Hi {{name}}', html: '<p>Welcome, {{name}}</p>' });
+      templates.register({ id: 'welcome', subject: 'Hello {{name}}', html: '<p>Welcome aboard, {{name}}</p>' });
+      const service = createService(templates);
+      providerA.setFailureRate(0);
+      const send = vi.spyOn(providerA, 'sendEmail');
+
+      const result = await service.sendTemplate('welcome', { name: 'Ann' }, 'ann@example.com', { id: 'welcome-ann', priority: 'high' });
+
+      expect(result.success).toBe(true);
+      expect(send.mock.calls[0][0]).toMatchObject({
+        id: 'welcome-ann',
+        to: 'ann@example.com',
+        subject: 'Hello Ann',
+        body: 'Welcome aboard, Ann',
+        html: '<p>Welcome aboard, Ann</p>',
+        priority: 'high'
+      });
+      expect(service.getEmailStatus('welcome-ann')).toMatchObject({ status: 'sent', templateId: 'welcome', templateVersion: 2 });
+    });
+
+    it('should fail without sending when the template cannot be rendered', async () => {
+      const templates = new TemplateRegistry();
+      templates.register<{ name: string }>({ id: 'welcome', subject: 'Hi', text: 'Hi {{name}}', variables: { name: 'string' } });
+      const service = createService(templates);
+      const send = vi.spyOn(providerA, 'sendEmail');
+
+      const invalid = await service.sendTemplate('welcome', {}, 'ann@example.com');
+      const missing = await service.sendTemplate('goodbye', {}, 'ann@example.com');
+
+      expect(invalid).toMatchObject({ success: false, errorCategory: 'permanent-content', errorCode: 'TEMPLATE_VARIABLES_INVALID' });
+      expect(missing).toMatchObject({ success: false, errorCode: 'TEMPLATE_NOT_FOUND' });
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Suppression List', () => {
+    const createService = (options: Partial<EmailServiceOptions> = {}) =>
+      new EmailService([providerA], {
+        retry: { maxAttempts: 1, baseDelay: 1, maxDelay: 1, backoffFactor: 1 },
+        rateLimit: { maxRequests: 10, windowMs: 60000 },
+        circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+        enableLogging: false,
+        ...options
+      });
+
+    it('should suppress recipients rejected permanently and skip them afterwards', async () => {
+      const service = createService();
+      providerA.setFailureRate(0);
+      const send = vi.spyOn(providerA, 'sendEmail');
+      const suppressed = vi.fn();
+      service.on('suppressed', suppressed);
+
+      await service.sendEmail({ ...createTestMessage('first'), to: 'invalid@example.com' });
+      const result = await service.sendEmail({ ...createTestMessage('second'), to: 'Invalid@Example.com' });
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(service.getSuppression('invalid@example.com')).toMatchObject({ reason: 'hard-bounce', source: 'Provider A' });
+      expect(result).toMatchObject({ success: false, errorCode: 'SUPPRESSED', errorCategory: 'permanent-recipient' });
+      expect(service.getEmailStatus('second')?.status).toBe('suppressed');
+      expect(suppressed).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'second', reasons: ['hard-bounce'] }));
+    });
+
+    it('should not auto-suppress when disabled', async () => {
+      const service = createService({ suppression: { autoSuppress: false } });
+      providerA.setFailureRate(0);
+
+      await service.sendEmail({ ...createTestMessage(), to: 'invalid@example.com' });
+
+      expect(service.listSuppressions()).toEqual([]);
+    });
+
+    it('should manage entries manually and expire them', async () => {
+      const service = createService({ suppression: { ttlMs: { unsubscribe: 1000 } } });
+      const now = Date.now();
+
+      service.addSuppression('a@example.com');
+      service.addSuppression('b@example.com', 'unsubscribe');
+      service.addSuppression('c@example.com', 'complaint', { expiresAt: now + 5000 });
+
+      expect(service.listSuppressions().map(entry => [entry.address, entry.reason])).toEqual([
+        ['a@example.com', 'manual'],
+        ['b@example.com', 'unsubscribe'],
+        ['c@example.com', 'complaint']
+      ]);
+      expect(service.removeSuppression('A@example.com')).toBe(true);
+      expect(service.removeSuppression('a@example.com')).toBe(false);
+
+      const clock = vi.spyOn(Date, 'now').mockReturnValue(now + 2000);
+      expect(service.listSuppressions().map(entry => entry.address)).toEqual(['c@example.com']);
+      clock.mockRestore();
+    });
+
+    it('should reject suppressed recipients before rate limiting', async () => {
+      const service = createService({ rateLimit: { maxRequests: 1, windowMs: 60000 } });
+      providerA.setFailureRate(0);
+      service.addSuppression('test@example.com', 'complaint');
+
+      const suppressed = await service.sendEmail(createTestMessage('suppressed'));
+      const sent = await service.sendEmail({ ...createTestMessage('allowed'), to: 'other@example.com' });
+
+      expect(suppressed.errorCode).toBe('SUPPRESSED');
+      expect(sent.success).toBe(true);
+    });
+
+    it('should match suppressed addresses in the normalized form they are sent in', async () => {
+      const service = createService();
+      providerA.setFailureRate(0);
+      const send = vi.spyOn(providerA, 'sendEmail');
+      service.addSuppression(' user@bücher.de ', 'unsubscribe');
+
+      const result = await service.sendEmail({ ...createTestMessage('idn'), to: 'user@bücher.de' });
+
+      expect(result.errorCode).toBe('SUPPRESSED');
+      expect(send).not.toHaveBeenCalled();
+      expect(service.getSuppression('user@xn--bcher-kva.de')).toMatchObject({ reason: 'unsubscribe' });
+      expect(service.removeSuppression('User@Bücher.de')).toBe(true);
+    });
+
+    it('should look up queued recipients by address when they are dequeued', async () => {
+      const storage = new InMemoryStorage();
+      const service = createService({ rateLimit: { maxRequests: 1, windowMs: 1000 }, storage });
+      providerA.setFailureRate(0);
+      await service.sendEmail(createTestMessage('first'));
+      await service.sendEmail(createTestMessage('waiting'));
+      await service.sendEmail({ ...createTestMessage('next'), to: 'other@example.com' });
+      const scan = vi.spyOn(storage, 'getSuppressions');
+
+      service.addSuppression('test@example.com', 'unsubscribe');
+      await service.drain({ timeout: 3000 });
+
+      expect(service.getEmailStatus('waiting')?.status).toBe('suppressed');
+      expect(service.getEmailStatus('next')?.status).toBe('sent');
+      expect(storage.getQueuedEmails()).toEqual([]);
+      expect(scan).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Batch Sending', () => {
+    it('should bound concurrency and report per-message results', async () => {
+      providerA.setFailureRate(0);
+      let active = 0;
+      let peak = 0;
+      const send = providerA.sendEmail.bind(providerA);
+      vi.spyOn(providerA, 'sendEmail').mockImplementation(async message => {
+        peak = Math.max(peak, ++active);
+        try {
+          return await send(message);
+        } finally {
+          active--;
+        }
+      });
+      const progress: number[] = [];
+      const messages = ['b1', 'b2', 'b3', 'b4', 'b5'].map(id => createTestMessage(id));
+      messages[2] = { ...messages[2], to: 'invalid@example.com' };
+
+      const report = await emailService.sendBatch(messages, {
+        concurrency: 2,
+        onProgress: ({ completed }) => progress.push(completed)
+      });
+
+      expect(peak).toBe(2);
+      expect(progress).toEqual([1, 2, 3, 4, 5]);
+      expect(report).toMatchObject({ total: 5, sent: 4, failed: 1, deferred: 0, skipped: [], stopped: false });
+      expect(report.results.map(item => item.messageId)).toEqual(['b1', 'b2', 'b3', 'b4', 'b5']);
+      expect(report.results[2]).toMatchObject({ outcome: 'failed', result: { errorCategory: 'permanent-recipient' } });
+      expect(report.providers['Provider A']).toEqual({ sent: 4, failed: 1 });
+      expect(report.retries).toBe(0);
+      expect(report.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should stop starting messages once the error rate is exceeded', async () => {
+      providerA.setFailureRate(0); // Provider B accepts these recipients, so A must not trip
+      const messages = ['s1', 's2', 's3', 's4', 's5', 's6'].map(id => ({ ...createTestMessage(id), to: 'invalid@example.com' }));
+
+      const report = await emailService.sendBatch(messages, { concurrency: 1, stopOnErrorRate: 0.5, minResults: 2 });
+
+      expect(report.stopped).toBe(true);
+      expect(report.failed).toBe(2);
+      expect(report.skipped).toEqual(['s3', 's4', 's5', 's6']);
+    });
+
+    it('should count queued messages as deferred', async () => {
+      providerA.setFailureRate(0);
+      const limited = new EmailService([providerA], {
+        retry: { maxAttempts: 1, baseDelay: 1, maxDelay: 1, backoffFactor: 1 },
+        rateLimit: { maxRequests: 1, windowMs: 60000 },
+        circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+        enableLogging: false
+      });
+
+      const report = await limited.sendBatch([createTestMessage('d1'), createTestMessage('d2')], { concurrency: 1 });
+      limited.clear();
+
+      expect(report).toMatchObject({ sent: 1, deferred: 1, failed: 0 });
+      expect(report.results[1].outcome).toBe('deferred');
+    });
   });
 
   describe('Rate Limiting', () => {
@@ -176,6 +801,321 @@ describe('EmailService', () => {
     });
   });
 
+  describe('Per-Domain Throttling', () => {
+    it('should defer mail for a throttled domain without blocking other domains', async () => {
+      providerA.setFailureRate(0);
+      const throttledService = new EmailService([providerA], {
+        retry: { maxAttempts: 1, baseDelay: 100, maxDelay: 1000, backoffFactor: 2 },
+        rateLimit: {
+          maxRequests: 10,
+          windowMs: 1000,
+          perDomain: { domains: { 'slow.example': { maxRequests: 1, windowMs: 500 } } }
+        },
+        circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+        enableLogging: false
+      });
+      const rateLimited = vi.fn();
+      throttledService.on('rate-limited', rateLimited);
+
+      const first = await throttledService.sendEmail({ ...createTestMessage('slow-1'), to: 'a@slow.example' });
+      const second = await throttledService.sendEmail({ ...createTestMessage('slow-2'), to: 'b@slow.example' });
+      const other = await throttledService.sendEmail({ ...createTestMessage('fast-1'), to: 'c@fast.example' });
+
+      expect(first.success).toBe(true);
+      expect(second.success).toBe(false);
+      expect(second.error).toContain('slow.example');
+      expect(other.success).toBe(true);
+      expect(rateLimited).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'slow-2', domain: 'slow.example' }));
+
+      await vi.waitFor(() => {
+        expect(throttledService.getEmailStatus('slow-2')?.status).toBe('sent');
+      }, { timeout: 3000 });
+    });
+  });
+
+  describe('Provider Quotas', () => {
+    const quotaOptions = {
+      retry: { maxAttempts: 3, baseDelay: 1000, maxDelay: 5000, backoffFactor: 2 },
+      rateLimit: { maxRequests: 10, windowMs: 5000 },
+      circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+      enableLogging: false
+    };
+
+    it('should skip a provider without waiting once its quota is used up', async () => {
+      providerA.setFailureRate(0);
+      providerB.setFailureRate(0);
+      Object.assign(providerA, { dailyQuota: 1 });
+      const quotaService = new EmailService([providerA, providerB], quotaOptions);
+
+      const first = await quotaService.sendEmail(createTestMessage('quota-1'));
+      const startedAt = Date.now();
+      const second = await quotaService.sendEmail(createTestMessage('quota-2'));
+
+      expect(first.provider).toBe('Provider A');
+      expect(second.provider).toBe('Provider B');
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      expect(quotaService.getStatistics().providerQuotas['Provider A']).toMatchObject({ dailyQuota: 1, dailyRemaining: 0 });
+      expect(quotaService.getStatistics().providerQuotas['Provider B']).toEqual({});
+    });
+
+    it('should not use quota or count attempts while a provider\'s circuit is open', async () => {
+      providerA.setFailureRate(1);
+      providerB.setFailureRate(0);
+      Object.assign(providerA, { dailyQuota: 5 });
+      const quotaService = new EmailService([providerA, providerB], {
+        ...quotaOptions,
+        retry: { maxAttempts: 1, baseDelay: 10, maxDelay: 100, backoffFactor: 2 },
+        circuitBreaker: { failureThreshold: 1, resetTimeout: 60000, monitoringWindow: 10000 }
+      });
+      const started = vi.fn();
+      quotaService.on('attempt-started', event => started(event.provider));
+
+      for (let i = 0; i < 5; i++) {
+        await quotaService.sendEmail(createTestMessage(`quota-open-${i}`));
+      }
+
+      expect(started.mock.calls.filter(([provider]) => provider === 'Provider A')).toHaveLength(1);
+      expect(quotaService.getMetrics()).toContain('email_attempts_total{provider="Provider A"} 1');
+      expect(quotaService.getStatistics().providerQuotas['Provider A']).toMatchObject({ dailyRemaining: 4 });
+      expect(quotaService.getEmailStatus('quota-open-4')).toMatchObject({ status: 'sent', attempts: 1 });
+    });
+
+    it('should queue emails when every provider is out of quota', async () => {
+      providerA.setFailureRate(0);
+      Object.assign(providerA, { rateLimit: { maxRequests: 1, windowMs: 60000 } });
+      const quotaService = new EmailService([providerA], quotaOptions);
+
+      await quotaService.sendEmail(createTestMessage('quota-3'));
+      const result = await quotaService.sendEmail(createTestMessage('quota-4'));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('quotas exhausted');
+      expect(quotaService.getEmailStatus('quota-4')?.status).toBe('queued');
+      quotaService.clear();
+    });
+  });
+
+  describe('Routing', () => {
+    const routingOptions = {
+      retry: { maxAttempts: 1, baseDelay: 100, maxDelay: 1000, backoffFactor: 2 },
+      rateLimit: { maxRequests: 20, windowMs: 5000 },
+      circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+      enableLogging: false
+    };
+
+    it('should spread traffic with weighted round-robin', async () => {
+      providerA.setFailureRate(0);
+      providerB.setFailureRate(0);
+      const routedService = new EmailService([providerA, providerB], {
+        ...routingOptions,
+        routing: new WeightedRoundRobinStrategy({ 'Provider A': 1, 'Provider B': 1 })
+      });
+
+      const results = await Promise.all([0, 1, 2, 3].map(i => routedService.sendEmail(createTestMessage(`rr-${i}`))));
+
+      expect(results.map(result => result.provider).sort()).toEqual(['Provider A', 'Provider A', 'Provider B', 'Provider B']);
+      expect(routedService.getStatistics().routingStrategy).toBe('weighted-round-robin');
+      expect(routedService.getStatistics().providerHealth['Provider A'].samples).toBe(2);
+    });
+
+    it('should route tagged messages to the configured providers', async () => {
+      providerA.setFailureRate(0);
+      providerB.setFailureRate(0);
+      const routedService = new EmailService([providerA, providerB], {
+        ...routingOptions,
+        routing: new TagRoutingStrategy({ marketing: ['Provider B'] })
+      });
+
+      const marketing = await routedService.sendEmail({ ...createTestMessage('tag-1'), tags: ['marketing'] });
+      const other = await routedService.sendEmail(createTestMessage('tag-2'));
+
+      expect(marketing.provider).toBe('Provider B');
+      expect(other.provider).toBe('Provider A');
+    });
+  });
+
+  describe('Dead-Letter Queue', () => {
+    it('should keep emails that failed on every provider with their failure history', async () => {
+      providerA.setFailureRate(1);
+      providerB.setFailureRate(1);
+
+      const message = createTestMessage('dead-1');
+      await emailService.sendEmail(message);
+
+      const letters = emailService.listDeadLetters();
+      expect(letters).toHaveLength(1);
+      expect(letters[0].message).toEqual(message);
+      expect(letters[0].failures).toHaveLength(6);
+      expect(letters[0].failures.map(f => f.provider)).toContain('Provider B');
+      expect(emailService.getStatistics().deadLetters).toBe(1);
+    });
+
+    it('should replay a dead letter and remove it once sent', async () => {
+      providerA.setFailureRate(1);
+      providerB.setFailureRate(1);
+      await emailService.sendEmail(createTestMessage('dead-1'));
+
+      emailService.resetCircuitBreakers();
+      providerA.setFailureRate(0);
+      const result = await emailService.replayDeadLetter('dead-1');
+
+      expect(result!.success).toBe(true);
+      expect(emailService.listDeadLetters()).toHaveLength(0);
+      expect(emailService.getEmailStatus('dead-1')!.status).toBe('sent');
+      expect(await emailService.replayDeadLetter('dead-1')).toBeUndefined();
+    });
+
+    it('should purge dead letters', async () => {
+      providerA.setFailureRate(1);
+      providerB.setFailureRate(1);
+      await emailService.sendEmail(createTestMessage('dead-1'));
+
+      expect(emailService.purgeDeadLetters()).toBe(1);
+      expect(emailService.listDeadLetters()).toHaveLength(0);
+    });
+  });
+
+  describe('Persistence', () => {
+    it('should resume emails left in the storage queue on startup', async () => {
+      providerA.setFailureRate(0);
+      const storage = new InMemoryStorage();
+      storage.saveQueuedEmail({ message: createTestMessage('recovered-1'), enqueuedAt: Date.now() });
+
+      const recoveringService = new EmailService([providerA], {
+        retry: { maxAttempts: 1, baseDelay: 100, maxDelay: 1000, backoffFactor: 2 },
+        rateLimit: { maxRequests: 10, windowMs: 5000 },
+        circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+        storage,
+        enableLogging: false
+      });
+
+      await vi.waitFor(() => {
+        expect(recoveringService.getEmailStatus('recovered-1')?.status).toBe('sent');
+      }, { timeout: 2000 });
+
+      expect(storage.getQueuedEmails()).toHaveLength(0);
+      expect(storage.isSent('recovered-1')).toBe(true);
+    });
+
+    it('should keep a queued email in storage until its delivery settles', async () => {
+      providerA.setFailureRate(0);
+      let release!: () => void;
+      const gate = new Promise<void>(resolve => { release = resolve; });
+      const originalSend = providerA.sendEmail;
+      providerA.sendEmail = async (message: EmailMessage) => {
+        await gate;
+        return originalSend.call(providerA, message);
+      };
+      const storage = new InMemoryStorage();
+      storage.saveQueuedEmail({ message: createTestMessage('recovered-2'), enqueuedAt: Date.now() });
+
+      const recoveringService = new EmailService([providerA], {
+        retry: { maxAttempts: 1, baseDelay: 100, maxDelay: 1000, backoffFactor: 2 },
+        rateLimit: { maxRequests: 10, windowMs: 5000 },
+        circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+        storage,
+        enableLogging: false
+      });
+
+      await vi.waitFor(() => {
+        expect(recoveringService.getEmailStatus('recovered-2')?.status).toBe('sending');
+      }, { timeout: 2000 });
+      expect(storage.getQueuedEmails().map(entry => entry.message.id)).toEqual(['recovered-2']);
+
+      release();
+      await recoveringService.drain();
+      expect(storage.getQueuedEmails()).toHaveLength(0);
+    });
+
+    it('should not send a recovered email again when it is resubmitted or already sent', async () => {
+      providerA.setFailureRate(0);
+      let release!: () => void;
+      const gate = new Promise<void>(resolve => { release = resolve; });
+      const sent: string[] = [];
+      const originalSend = providerA.sendEmail;
+      providerA.sendEmail = async (message: EmailMessage) => {
+        sent.push(message.id);
+        await gate;
+        return originalSend.call(providerA, message);
+      };
+      const storage = new InMemoryStorage();
+      storage.saveQueuedEmail({ message: createTestMessage('recovered-3'), enqueuedAt: Date.now() });
+      storage.saveQueuedEmail({ message: createTestMessage('recovered-4'), enqueuedAt: Date.now() });
+      storage.markSent('recovered-4'); // Crashed after sending, before leaving the queue
+
+      const recoveringService = new EmailService([providerA], {
+        retry: { maxAttempts: 1, baseDelay: 100, maxDelay: 1000, backoffFactor: 2 },
+        rateLimit: { maxRequests: 10, windowMs: 5000 },
+        circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+        storage,
+        enableLogging: false
+      });
+      const resubmitted = await recoveringService.sendEmail(createTestMessage('recovered-3'));
+      release();
+      await recoveringService.drain();
+
+      expect(resubmitted.provider).toBe('queue');
+      expect(sent).toEqual(['recovered-3']);
+      expect(storage.getQueuedEmails()).toHaveLength(0);
+    });
+  });
+
+  describe('Scheduled Delivery', () => {
+    it('should hold a delayed email until it is due', async () => {
+      providerA.setFailureRate(0);
+
+      const result = await emailService.sendEmail({ ...createTestMessage('later-1'), delayMs: 200 });
+
+      expect(result.success).toBe(false);
+      expect(result.provider).toBe('scheduler');
+      expect(emailService.getEmailStatus('later-1')?.status).toBe('scheduled');
+      expect(emailService.listScheduled().map(entry => entry.message.id)).toEqual(['later-1']);
+
+      await vi.waitFor(() => {
+        expect(emailService.getEmailStatus('later-1')?.status).toBe('sent');
+      }, { timeout: 2000 });
+      expect(emailService.listScheduled()).toHaveLength(0);
+    });
+
+    it('should send immediately when sendAt is in the past', async () => {
+      providerA.setFailureRate(0);
+
+      const result = await emailService.sendEmail({ ...createTestMessage('past-1'), sendAt: Date.now() - 1000 });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should cancel a scheduled email', async () => {
+      await emailService.sendEmail({ ...createTestMessage('cancel-1'), sendAt: Date.now() + 60000 });
+
+      expect(emailService.cancelScheduled('cancel-1')).toBe(true);
+      expect(emailService.cancelScheduled('cancel-1')).toBe(false);
+      expect(emailService.listScheduled()).toHaveLength(0);
+      expect(emailService.getEmailStatus('cancel-1')?.status).toBe('cancelled');
+    });
+
+    it('should restore scheduled emails from storage on startup', async () => {
+      const storage = new InMemoryStorage();
+      const options = {
+        retry: { maxAttempts: 1, baseDelay: 100, maxDelay: 1000, backoffFactor: 2 },
+        rateLimit: { maxRequests: 10, windowMs: 5000 },
+        circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+        storage,
+        enableLogging: false
+      };
+      const sendAt = Date.now() + 60000;
+
+      const first = new EmailService([providerA], options);
+      await first.sendEmail({ ...createTestMessage('digest-1'), sendAt });
+
+      const restarted = new EmailService([providerA], options);
+      expect(restarted.listScheduled()).toEqual([expect.objectContaining({ sendAt })]);
+      expect(restarted.getStatistics().scheduled).toBe(1);
+      restarted.cancelScheduled('digest-1');
+      first.cancelScheduled('digest-1');
+    });
+  });
+
   describe('Circuit Breaker', () => {
     it('should open circuit breaker after repeated failures', async () => {
       providerA.setFailureRate(1);
@@ -193,6 +1133,134 @@ describe('EmailService', () => {
       // Circuit breaker should be open due to failures
       expect(cbState.state).toBe('open');
     });
+
+    it('should probe providers again once the reset timeout has passed', async () => {
+      const breakerService = new EmailService([providerA, providerB], {
+        retry: { maxAttempts: 1, baseDelay: 10, maxDelay: 100, backoffFactor: 2 },
+        rateLimit: { maxRequests: 10, windowMs: 5000 },
+        circuitBreaker: { failureThreshold: 1, resetTimeout: 1000, monitoringWindow: 10000 },
+        enableLogging: false
+      });
+      providerA.setFailureRate(1);
+      providerB.setFailureRate(1);
+      await breakerService.sendEmail(createTestMessage('trip-1'));
+      expect(breakerService.getStatistics().circuitBreakers['Provider A'].state).toBe('open');
+
+      await new Promise(resolve => setTimeout(resolve, 1100));
+      providerA.setFailureRate(0);
+      const result = await breakerService.sendEmail(createTestMessage('probe-1'));
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('Provider A');
+    });
+
+    it('should resume the queue once the reset timeout passes while every circuit is open', async () => {
+      const breakerService = new EmailService([providerA, providerB], {
+        retry: { maxAttempts: 1, baseDelay: 10, maxDelay: 100, backoffFactor: 2 },
+        rateLimit: { maxRequests: 10, windowMs: 5000 },
+        circuitBreaker: { failureThreshold: 1, resetTimeout: 1000, monitoringWindow: 10000 },
+        enableLogging: false
+      });
+      providerA.setFailureRate(1);
+      providerB.setFailureRate(1);
+      await breakerService.sendEmail(createTestMessage('trip-1'));
+      const queued = await breakerService.sendEmail(createTestMessage('queued-1'));
+      expect(queued.provider).toBe('queue');
+      providerA.setFailureRate(0);
+
+      const drained = await breakerService.drain({ timeout: 3000 });
+
+      expect(drained).toBe(true);
+      expect(breakerService.getEmailStatus('queued-1')?.status).toBe('sent');
+    });
+  });
+
+  describe('Lifecycle Events', () => {
+    it('should emit attempt, fallback and sent events in order', async () => {
+      providerA.setFailureRate(1);
+      providerB.setFailureRate(0);
+      const events: string[] = [];
+      emailService.on('attempt-started', e => events.push(`attempt-started:${e.provider}:${e.attempt}`));
+      emailService.on('attempt-failed', e => events.push(`attempt-failed:${e.provider}:${e.retryInMs === undefined ? 'final' : 'retry'}`));
+      emailService.on('provider-fallback', e => events.push(`provider-fallback:${e.from}->${e.to}`));
+      emailService.on('sent', e => events.push(`sent:${e.provider}:${e.attempts}`));
+
+      await emailService.sendEmail(createTestMessage('events-1'));
+
+      expect(events).toEqual([
+        'attempt-started:Provider A:1',
+        'attempt-failed:Provider A:retry',
+        'attempt-started:Provider A:2',
+        'attempt-failed:Provider A:retry',
+        'attempt-started:Provider A:3',
+        'attempt-failed:Provider A:final',
+        'provider-fallback:Provider A->Provider B',
+        'attempt-started:Provider B:1',
+        'sent:Provider B:4'
+      ]);
+    });
+
+    it('should emit failed with dead-letter details and circuit state changes', async () => {
+      providerA.setFailureRate(1);
+      providerB.setFailureRate(1);
+      const failed = vi.fn();
+      const circuit = vi.fn();
+      emailService.on('failed', failed);
+      emailService.on('circuit-state-changed', circuit);
+
+      await emailService.sendEmail(createTestMessage('events-2'));
+
+      expect(failed).toHaveBeenCalledWith(expect.objectContaining({
+        messageId: 'events-2',
+        errorCategory: 'transient',
+        attempts: 6,
+        deadLettered: true
+      }));
+      expect(circuit).toHaveBeenCalledWith(expect.objectContaining({ provider: 'Provider A', from: 'closed', to: 'open' }));
+    });
+
+    it('should emit rate-limited and queued when the rate limit is exceeded', async () => {
+      const limitedService = new EmailService([providerA], {
+        retry: { maxAttempts: 1, baseDelay: 100, maxDelay: 1000, backoffFactor: 2 },
+        rateLimit: { maxRequests: 1, windowMs: 5000 },
+        circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+        enableLogging: false
+      });
+      providerA.setFailureRate(0);
+      const rateLimited = vi.fn();
+      const queued = vi.fn();
+      limitedService.on('rate-limited', rateLimited);
+      limitedService.on('queued', queued);
+
+      await limitedService.sendEmail(createTestMessage('events-3'));
+      await limitedService.sendEmail({ ...createTestMessage('events-4'), priority: 'high' });
+
+      expect(rateLimited).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'events-4' }));
+      expect(queued).toHaveBeenCalledWith(expect.objectContaining({
+        messageId: 'events-4',
+        priority: 'high',
+        reason: 'rate-limited',
+        queueSize: 1
+      }));
+      limitedService.clear();
+    });
+
+    it('should stop delivering events after off() and survive throwing listeners', async () => {
+      providerA.setFailureRate(0);
+      const listener = vi.fn();
+      emailService.on('sent', () => {
+        throw new Error('listener bug');
+      });
+      emailService.on('sent', listener);
+
+      const result = await emailService.sendEmail(createTestMessage('events-5'));
+      emailService.off('sent', listener);
+      await emailService.sendEmail(createTestMessage('events-6'));
+
+      expect(result.success).toBe(true);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(emailService.getStatistics().recentLogs.some(log => log.message === 'Event listener failed')).toBe(true);
+    });
   });
 
   describe('Statistics', () => {
@@ -214,4 +1282,211 @@ describe('EmailService', () => {
       expect(stats.failed).toBe(0);
     });
   });
+
+  describe('Tracing', () => {
+    const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+    let exporter: InMemorySpanExporter;
+    let tracedService: EmailService;
+
+    beforeEach(() => {
+      exporter = new InMemorySpanExporter();
+      tracedService = new EmailService([providerA, providerB], {
+        retry: { maxAttempts: 2, baseDelay: 50, maxDelay: 1000, backoffFactor: 2 },
+        rateLimit: { maxRequests: 10, windowMs: 5000 },
+        circuitBreaker: { failureThreshold: 5, resetTimeout: 5000, monitoringWindow: 10000 },
+        tracer: new BasicTracer(exporter),
+        enableLogging: false
+      });
+    });
+
+    afterEach(() => {
+      tracedService.clear();
+    });
+
+    it('should trace the send, each attempt, backoff and fallback under the caller\'s trace', async () => {
+      providerA.setFailureRate(1);
+      providerB.setFailureRate(0);
+
+      await tracedService.sendEmail({ ...createTestMessage('traced-1'), metadata: { traceparent } });
+
+      const spans = exporter.getTrace('4bf92f3577b34da6a3ce929d0e0e4736');
+      const byName = (name: string) => spans.filter(span => span.name === name);
+      const [root] = byName('email.send');
+      const [deliver] = byName('email.deliver');
+
+      expect(spans).toHaveLength(exporter.getFinishedSpans().length);
+      expect(root).toMatchObject({
+        parentSpanId: '00f067aa0ba902b7',
+        status: { code: 'ok' },
+        attributes: { 'email.message_id': 'traced-1', 'email.outcome': 'sent', 'email.provider': 'Provider B' }
+      });
+      expect(deliver.parentSpanId).toBe(root.spanId);
+      expect(deliver.events.map(event => event.name)).toEqual(['provider-fallback']);
+      expect(byName('email.attempt').map(span => [span.attributes['email.provider'], span.status.code])).toEqual([
+        ['Provider A', 'error'],
+        ['Provider A', 'error'],
+        ['Provider B', 'ok']
+      ]);
+      expect(byName('email.backoff')).toHaveLength(1);
+      expect(byName('email.backoff')[0].durationMs).toBeGreaterThanOrEqual(40);
+      [...byName('email.attempt'), ...byName('email.backoff')].forEach(span => {
+        expect(span.parentSpanId).toBe(deliver.spanId);
+      });
+    });
+
+    it('should continue the trace when a scheduled email is delivered later', async () => {
+      providerA.setFailureRate(0);
+
+      const result = await tracedService.sendEmail({ ...createTestMessage('traced-2'), delayMs: 50 });
+      await vi.waitFor(() => {
+        expect(tracedService.getEmailStatus('traced-2')?.status).toBe('sent');
+      }, { timeout: 2000 });
+
+      const [root] = exporter.getFinishedSpans().filter(span => span.name === 'email.send');
+      const [deliver] = exporter.getFinishedSpans().filter(span => span.name === 'email.deliver');
+      expect(result.provider).toBe('scheduler');
+      expect(root.attributes['email.outcome']).toBe('scheduled');
+      expect(deliver).toMatchObject({ traceId: root.traceId, parentSpanId: root.spanId });
+      expect(deliver.attributes['email.wait_ms']).toBeLessThan(1000);
+    });
+  });
+
+  describe('Logging', () => {
+    const loggingOptions = {
+      retry: { maxAttempts: 1, baseDelay: 100, maxDelay: 1000, backoffFactor: 2 },
+      rateLimit: { maxRequests: 10, windowMs: 5000 },
+      circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 }
+    };
+
+    it('should not write anything when logging is disabled', async () => {
+      const consoleSpies = (['info', 'warn', 'error'] as const).map(level => vi.spyOn(console, level));
+      providerA.setFailureRate(0);
+
+      await emailService.sendEmail({ ...createTestMessage('quiet-1'), to: 'not-an-address' });
+
+      consoleSpies.forEach(spy => {
+        expect(spy).not.toHaveBeenCalled();
+        spy.mockRestore();
+      });
+      expect(emailService.getStatistics().recentLogs.length).toBeGreaterThan(0);
+    });
+
+    it('should redact recipients and attach one correlation ID per message', async () => {
+      const sink = new RingBufferSink();
+      const loggingService = new EmailService([providerA], {
+        ...loggingOptions,
+        logging: { level: 'debug', sinks: [sink] },
+        enableLogging: true
+      });
+      providerA.setFailureRate(0);
+
+      await loggingService.sendEmail({
+        ...createTestMessage('logged-1'),
+        to: 'jane@gmial.com',
+        metadata: { correlationId: 'order-42' }
+      });
+
+      const entries = sink.getEntries().filter(entry => entry.context?.messageId === 'logged-1');
+      expect(entries.map(entry => entry.message)).toEqual(expect.arrayContaining([
+        'Recipient address flagged',
+        'Send attempt started',
+        'Email sent successfully'
+      ]));
+      expect(entries.every(entry => entry.correlationId === 'order-42')).toBe(true);
+      expect(JSON.stringify(entries)).not.toContain('jane@');
+      expect(loggingService.getEmailStatus('logged-1')!.correlationId).toBe('order-42');
+    });
+  });
+
+  describe('Metrics', () => {
+    it('should count attempts, retries and fallbacks and time provider calls', async () => {
+      providerA.setFailureRate(1);
+      providerB.setFailureRate(0);
+
+      await emailService.sendEmail(createTestMessage('metrics-1'));
+      const registry = emailService.getMetricsRegistry();
+      const latency = registry.get('email_provider_latency_seconds') as Histogram;
+
+      expect((registry.get('email_attempt_failures_total') as Counter).get({ provider: 'Provider A', category: 'transient' })).toBe(3);
+      expect((registry.get('email_retries_total') as Counter).get({ provider: 'Provider A' })).toBe(2);
+      expect((registry.get('email_fallbacks_total') as Counter).get({ from: 'Provider A', to: 'Provider B' })).toBe(1);
+      expect(latency.get({ provider: 'Provider A', outcome: 'failure' }).count).toBe(3);
+      expect(latency.get({ provider: 'Provider B', outcome: 'success' }).sum).toBeGreaterThan(0.05);
+
+      const text = emailService.getMetrics();
+      expect(text).toContain('# TYPE email_sent_total counter');
+      expect(text).toContain('email_sent_total{provider="Provider B"} 1');
+      expect(text).toContain('email_delivery_duration_seconds_count{outcome="sent"} 1');
+      expect(text).toContain('email_queue_depth{priority="normal"} 0');
+      expect(text).toMatch(/^email_rate_limit_tokens \d+$/m);
+      expect(text).toContain('email_circuit_breaker_state{provider="Provider B"} 0');
+    });
+
+    it('should count final failures by provider and category', async () => {
+      providerA.setFailureRate(0);
+      await emailService.sendEmail({ ...createTestMessage('metrics-2'), to: 'nope' });
+      await emailService.sendEmail({ ...createTestMessage('metrics-3'), to: 'invalid@example.com' });
+
+      const text = emailService.getMetrics();
+      expect(text).toContain('email_failed_total{provider="none",category="permanent-recipient"} 1');
+      expect(text).toContain('email_failed_total{provider="Provider A",category="permanent-recipient"} 1');
+    });
+  });
+
+  describe('Delivery History', () => {
+    it('should record every attempt with its outcome, breaker state and backoff', async () => {
+      providerA.setFailureRate(1);
+      providerB.setFailureRate(0);
+
+      await emailService.sendEmail(createTestMessage('history-1'));
+      const history = emailService.getDeliveryHistory('history-1')!;
+
+      expect(history.map(entry => [entry.provider, entry.attempt, entry.success])).toEqual([
+        ['Provider A', 1, false],
+        ['Provider A', 2, false],
+        ['Provider A', 3, false],
+        ['Provider B', 1, true]
+      ]);
+      expect(history[0]).toMatchObject({ errorCategory: 'transient', circuitState: 'closed' });
+      expect(history[0].backoffMs).toBeGreaterThan(0);
+      expect(history[2]).toMatchObject({ circuitState: 'open', backoffMs: undefined });
+      expect(history[3].latencyMs).toBe(history[3].endedAt - history[3].startedAt);
+      expect(emailService.getEmailStatus('history-1')!.history).toEqual(history);
+    });
+
+    it('should keep the history of a dead letter when it is replayed', async () => {
+      providerA.setFailureRate(1);
+      providerB.setFailureRate(1);
+      await emailService.sendEmail(createTestMessage('history-2'));
+
+      emailService.resetCircuitBreakers();
+      providerA.setFailureRate(0);
+      await emailService.replayDeadLetter('history-2');
+
+      const history = emailService.getDeliveryHistory('history-2')!;
+      expect(history).toHaveLength(7);
+      expect(history[6]).toMatchObject({ provider: 'Provider A', attempt: 1, success: true });
+      expect(emailService.getDeliveryHistory('unknown')).toBeUndefined();
+    });
+
+    it('should keep at most maxHistory attempts, dropping the oldest', async () => {
+      const service = new EmailService([providerA], {
+        retry: { maxAttempts: 3, baseDelay: 1, maxDelay: 1, backoffFactor: 1 },
+        rateLimit: { maxRequests: 10, windowMs: 5000 },
+        circuitBreaker: { failureThreshold: 10, resetTimeout: 5000, monitoringWindow: 10000 },
+        maxHistory: 2,
+        enableLogging: false
+      });
+      providerA.setFailureRate(1);
+      await service.sendEmail(createTestMessage('history-3'));
+      expect(service.getDeliveryHistory('history-3')!.map(entry => entry.attempt)).toEqual([2, 3]);
+
+      providerA.setFailureRate(0);
+      await service.replayDeadLetter('history-3');
+
+      const history = service.getDeliveryHistory('history-3')!;
+      expect(history).toHaveLength(2);
+      expect(history[1]).toMatchObject({ attempt: 1, success: true });
+    });
+  });
 });
\ No newline at end of file
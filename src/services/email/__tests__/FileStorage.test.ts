@@ -0,0 +1,124 @@
+import { mkdtempSync, readFileSync, rmSync, appendFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileStorage } from '../storage/FileStorage';
+import { EmailMessage, EmailStatus } from '../types';
+
+describe('FileStorage', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'email-storage-'));
+    path = join(dir, 'state.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const createMessage = (id: string): EmailMessage => ({
+    id,
+    to: 'test@example.com',
+    subject: 'Test Subject',
+    body: 'Test Body',
+    priority: 'normal',
+    timestamp: Date.now()
+  });
+
+  const createStatus = (messageId: string, status: EmailStatus['status']): EmailStatus => ({
+    messageId,
+    recipient: 'test@example.com',
+    subject: 'Test Subject',
+    status,
+    attempts: 1,
+    created: Date.now()
+  });
+
+  it('should restore statuses, sent IDs and queue after reopening', () => {
+    const storage = new FileStorage({ path });
+    storage.saveStatus(createStatus('sent-1', 'sent'));
+    storage.markSent('sent-1');
+    storage.saveQueuedEmail({ message: createMessage('queued-1'), enqueuedAt: 1 });
+    storage.saveQueuedEmail({ message: createMessage('queued-2'), enqueuedAt: 2 });
+    storage.removeQueuedEmail('queued-1');
+
+    const reopened = new FileStorage({ path });
+    expect(reopened.getStatus('sent-1')!.status).toBe('sent');
+    expect(reopened.isSent('sent-1')).toBe(true);
+    expect(reopened.getQueuedEmails().map(entry => entry.message.id)).toEqual(['queued-2']);
+  });
+
+  it('should restore scheduled emails after reopening', () => {
+    const storage = new FileStorage({ path });
+    storage.saveScheduledEmail({ message: createMessage('digest-1'), sendAt: 5000, scheduledAt: 1 });
+    storage.saveScheduledEmail({ message: createMessage('digest-2'), sendAt: 6000, scheduledAt: 1 });
+    storage.removeScheduledEmail('digest-1');
+
+    const reopened = new FileStorage({ path });
+    expect(reopened.getScheduledEmails().map(entry => [entry.message.id, entry.sendAt])).toEqual([['digest-2', 6000]]);
+  });
+
+  it('should restore idempotency records after reopening', () => {
+    const storage = new FileStorage({ path });
+    const record = { key: 'order-1', messageId: 'm1', fingerprint: 'abc', provider: 'Provider A', sentAt: 1 };
+    storage.saveIdempotencyRecord(record);
+    storage.saveIdempotencyRecord({ ...record, key: 'order-2', messageId: 'm2' });
+    storage.removeIdempotencyRecord('order-2');
+
+    const reopened = new FileStorage({ path });
+    expect(reopened.getIdempotencyRecord('order-1')).toEqual(record);
+    expect(reopened.getIdempotencyRecord('order-2')).toBeUndefined();
+  });
+
+  it('should restore suppressions after reopening', () => {
+    const storage = new FileStorage({ path });
+    storage.saveSuppression({ address: 'a@example.com', reason: 'hard-bounce', createdAt: 1 });
+    storage.saveSuppression({ address: 'b@example.com', reason: 'manual', createdAt: 2 });
+    storage.removeSuppression('b@example.com');
+
+    const reopened = new FileStorage({ path });
+    expect(reopened.getSuppressions()).toEqual([{ address: 'a@example.com', reason: 'hard-bounce', createdAt: 1 }]);
+  });
+
+  it('should keep the latest status for a message', () => {
+    const storage = new FileStorage({ path });
+    storage.saveStatus(createStatus('msg-1', 'sending'));
+    storage.saveStatus(createStatus('msg-1', 'failed'));
+
+    const reopened = new FileStorage({ path });
+    expect(reopened.getAllStatuses()).toHaveLength(1);
+    expect(reopened.getStatus('msg-1')!.status).toBe('failed');
+  });
+
+  it('should compact the log when loading', () => {
+    const storage = new FileStorage({ path });
+    for (let i = 0; i < 5; i++) {
+      storage.saveStatus(createStatus('msg-1', 'sending'));
+    }
+
+    new FileStorage({ path });
+    const lines = readFileSync(path, 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+  });
+
+  it('should compact the log while running once most records are superseded', () => {
+    const storage = new FileStorage({ path, compactAfter: 10 });
+    for (let i = 0; i < 100; i++) {
+      storage.saveStatus({ ...createStatus('msg-1', 'sending'), attempts: i });
+    }
+
+    const lines = readFileSync(path, 'utf8').trim().split('\n');
+    expect(lines.length).toBeLessThanOrEqual(10);
+    expect(new FileStorage({ path }).getStatus('msg-1')!.attempts).toBe(99);
+  });
+
+  it('should ignore an incomplete trailing record', () => {
+    const storage = new FileStorage({ path });
+    storage.markSent('msg-1');
+    appendFileSync(path, '{"type":"sent","messa');
+
+    const reopened = new FileStorage({ path });
+    expect(reopened.isSent('msg-1')).toBe(true);
+  });
+});
@@ -0,0 +1,218 @@
+import { HttpApiProvider, HttpApiProviderOptions, parseRetryAfter } from '../providers/HttpApiProvider';
+import { FakeHttpApiServer, FakeHttpHandler } from '../providers/http/FakeHttpApiServer';
+import { jsonMapper, sendGridMapper, sesMapper } from '../providers/http/mappers';
+import { apiKeyAuth, basicAuth, bearerAuth } from '../providers/http/auth';
+import { sendGridResponseParser, sesResponseParser } from '../providers/http/parsers';
+import {
+  AuthConfigError,
+  PermanentContentError,
+  PermanentRecipientError,
+  RateLimitedError,
+  TransientError
+} from '../errors';
+import { EmailService } from '../EmailService';
+import { EmailMessage } from '../types';
+
+describe('HttpApiProvider', () => {
+  let server: FakeHttpApiServer;
+
+  const startServer = async (handler?: FakeHttpHandler): Promise<string> => {
+    server = new FakeHttpApiServer(handler);
+    return server.listen();
+  };
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  const createMessage = (overrides: Partial<EmailMessage> = {}): EmailMessage => ({
+    id: 'http-1',
+    to: [{ address: 'user@example.com', name: 'User' }],
+    cc: ['cc@example.com'],
+    subject: 'Test Subject',
+    body: 'Test Body',
+    timestamp: Date.now(),
+    ...overrides
+  });
+
+  const sendGrid = (url: string, overrides: Partial<HttpApiProviderOptions> = {}) =>
+    new HttpApiProvider({
+      name: 'SendGrid',
+      endpoint: `${url}/v3/mail/send`,
+      mapper: sendGridMapper,
+      parser: sendGridResponseParser,
+      auth: bearerAuth('SG.key'),
+      from: 'sender@example.com',
+      ...overrides
+    });
+
+  it('should send a SendGrid-style payload and read the message ID header', async () => {
+    const url = await startServer(() => ({ status: 202, headers: { 'X-Message-Id': 'sg-123' }, body: '' }));
+
+    const result = await sendGrid(url).sendEmail(createMessage({ html: '<p>Hi</p>' }));
+
+    expect(result).toMatchObject({ success: true, messageId: 'sg-123', provider: 'SendGrid' });
+    const request = server.requests[0];
+    expect(request.method).toBe('POST');
+    expect(request.path).toBe('/v3/mail/send');
+    expect(request.headers.authorization).toBe('Bearer SG.key');
+    expect(request.body).toMatchObject({
+      personalizations: [{ to: [{ email: 'user@example.com', name: 'User' }], cc: [{ email: 'cc@example.com' }] }],
+      from: { email: 'sender@example.com' },
+      subject: 'Test Subject',
+      content: [
+        { type: 'text/plain', value: 'Test Body' },
+        { type: 'text/html', value: '<p>Hi</p>' }
+      ]
+    });
+  });
+
+  it('should send SES simple content and read MessageId from the body', async () => {
+    const url = await startServer(() => ({ body: { MessageId: 'ses-abc' } }));
+    const provider = new HttpApiProvider({
+      name: 'SES',
+      endpoint: `${url}/v2/email/outbound-emails`,
+      mapper: sesMapper,
+      parser: sesResponseParser,
+      auth: apiKeyAuth('X-Api-Key', 'secret'),
+      from: 'sender@example.com'
+    });
+
+    const result = await provider.sendEmail(createMessage());
+
+    expect(result.messageId).toBe('ses-abc');
+    expect(server.requests[0].headers['x-api-key']).toBe('secret');
+    expect(server.requests[0].body).toMatchObject({
+      FromEmailAddress: 'sender@example.com',
+      Destination: { ToAddresses: ['user@example.com'], CcAddresses: ['cc@example.com'], BccAddresses: [] },
+      Content: { Simple: { Subject: { Data: 'Test Subject' }, Body: { Text: { Data: 'Test Body' } } } }
+    });
+  });
+
+  it('should fall back to raw MIME for SES messages with attachments', async () => {
+    const url = await startServer(() => ({ body: { MessageId: 'ses-raw' } }));
+    const provider = new HttpApiProvider({
+      name: 'SES',
+      endpoint: url,
+      mapper: sesMapper,
+      parser: sesResponseParser,
+      from: 'sender@example.com'
+    });
+
+    await provider.sendEmail(createMessage({ attachments: [{ filename: 'a.txt', content: 'hello' }] }));
+
+    const body = server.requests[0].body as { Content: { Raw: { Data: string } } };
+    const mime = Buffer.from(body.Content.Raw.Data, 'base64').toString('utf8');
+    expect(mime).toContain('Subject: Test Subject');
+    expect(mime).toContain('filename="a.txt"');
+  });
+
+  it('should use the generic JSON mapper and parser with basic auth', async () => {
+    const url = await startServer();
+    const provider = new HttpApiProvider({ name: 'Gateway', endpoint: url, mapper: jsonMapper, auth: basicAuth('api', 'pw') });
+
+    const result = await provider.sendEmail(createMessage({ attachments: [{ filename: 'a.txt', content: 'hi' }] }));
+
+    expect(result.messageId).toBe('fake-1');
+    expect(server.requests[0].headers.authorization).toBe(`Basic ${Buffer.from('api:pw').toString('base64')}`);
+    expect(server.requests[0].body).toMatchObject({
+      id: 'http-1',
+      to: [{ address: 'user@example.com', name: 'User' }],
+      attachments: [{ filename: 'a.txt', content: Buffer.from('hi').toString('base64'), encoding: 'base64' }]
+    });
+  });
+
+  it('should report rate-limit headers on the result', async () => {
+    const url = await startServer(() => ({
+      body: { id: 'x' },
+      headers: { 'X-RateLimit-Limit': '100', 'X-RateLimit-Remaining': '42', 'X-RateLimit-Reset': '60' }
+    }));
+    const before = Date.now();
+
+    const result = await new HttpApiProvider({ name: 'Gateway', endpoint: url, mapper: jsonMapper }).sendEmail(createMessage());
+
+    expect(result.rateLimit).toMatchObject({ limit: 100, remaining: 42 });
+    expect(result.rateLimit!.resetAt).toBeGreaterThanOrEqual(before + 60000);
+  });
+
+  it('should map 429 to a rate-limited error with retry-after', async () => {
+    const url = await startServer(() => ({ status: 429, headers: { 'Retry-After': '7' }, body: { errors: [{ message: 'Too many' }] } }));
+
+    const error = await sendGrid(url).sendEmail(createMessage()).catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error.retryAfterMs).toBe(7000);
+    expect(error.code).toBe('429');
+    expect(error.message).toContain('Too many');
+  });
+
+  it('should map status codes onto the error taxonomy', async () => {
+    const url = await startServer();
+    const provider = sendGrid(url);
+    const cases: Array<[number, unknown]> = [
+      [401, AuthConfigError],
+      [403, AuthConfigError],
+      [500, TransientError],
+      [503, TransientError],
+      [400, PermanentContentError]
+    ];
+
+    for (const [status, errorClass] of cases) {
+      server.respondWith(() => ({ status, body: { errors: [{ message: 'nope' }] } }));
+      await expect(provider.sendEmail(createMessage())).rejects.toBeInstanceOf(errorClass);
+    }
+  });
+
+  it('should classify SendGrid recipient field errors as permanent recipient failures', async () => {
+    const url = await startServer(() => ({
+      status: 400,
+      body: { errors: [{ message: 'Invalid email', field: 'personalizations.0.to.0.email', error_id: 'invalid_to' }] }
+    }));
+
+    const error = await sendGrid(url).sendEmail(createMessage()).catch(e => e);
+
+    expect(error).toBeInstanceOf(PermanentRecipientError);
+    expect(error.code).toBe('invalid_to');
+  });
+
+  it('should time out slow responses as transient errors', async () => {
+    const url = await startServer(() => ({ delayMs: 1000, body: {} }));
+    const provider = new HttpApiProvider({ name: 'Slow', endpoint: url, mapper: jsonMapper, timeout: 50 });
+
+    const error = await provider.sendEmail(createMessage()).catch(e => e);
+
+    expect(error).toBeInstanceOf(TransientError);
+    expect(error.message).toContain('timed out');
+  });
+
+  it('should abort the request when the caller aborts', async () => {
+    const url = await startServer(() => ({ delayMs: 1000, body: {} }));
+    const provider = new HttpApiProvider({ name: 'Gateway', endpoint: url, mapper: jsonMapper });
+    const controller = new AbortController();
+    const reason = new Error('stop');
+    setTimeout(() => controller.abort(reason), 20);
+
+    await expect(provider.sendEmail(createMessage(), controller.signal)).rejects.toBe(reason);
+  });
+
+  it('should surface error codes through EmailService results', async () => {
+    const url = await startServer(() => ({ status: 422, body: { error: { code: 'bad_body', message: 'Body rejected' } } }));
+    const service = new EmailService([new HttpApiProvider({ name: 'Gateway', endpoint: url, mapper: jsonMapper })], {
+      retry: { maxAttempts: 1, baseDelay: 1, maxDelay: 1, backoffFactor: 1 },
+      rateLimit: { maxRequests: 10, windowMs: 5000 },
+      circuitBreaker: { failureThreshold: 3, resetTimeout: 5000, monitoringWindow: 10000 },
+      enableLogging: false
+    });
+
+    const result = await service.sendEmail(createMessage({ from: 'sender@example.com' }));
+
+    expect(result).toMatchObject({ success: false, errorCategory: 'permanent-content', errorCode: 'bad_body' });
+  });
+
+  it('should parse Retry-After as seconds or an HTTP date', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,100 @@
+import { vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { ConsoleSink, Logger, RingBufferSink, redactText, redactValue } from '../utils/Logger';
+import { JsonLinesFileSink } from '../utils/JsonLinesFileSink';
+
+describe('Logger', () => {
+  it('should drop entries below the minimum level', () => {
+    const sink = new RingBufferSink();
+    const logger = new Logger({ level: 'warn', sinks: [sink] });
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.setLevel('debug');
+    logger.debug('debug again');
+
+    expect(sink.getEntries().map(entry => entry.message)).toEqual(['warn', 'debug again']);
+    expect(logger.getLogs().map(entry => entry.level)).toEqual(['warn', 'debug']);
+  });
+
+  it('should mask addresses and replace bodies by default', () => {
+    const sink = new RingBufferSink();
+    const logger = new Logger({ sinks: [sink] });
+
+    logger.info('Sending to jane.doe@example.com', {
+      recipient: 'Jane <jane.doe@example.com>',
+      recipients: ['bob@example.org'],
+      message: { body: 'Your code is 1234', html: '<p>1234</p>', subject: 'Code' },
+      error: new Error('Rejected bob@example.org')
+    });
+
+    expect(sink.getEntries()[0]).toMatchObject({
+      message: 'Sending to j***@example.com',
+      context: {
+        recipient: 'Jane <j***@example.com>',
+        recipients: ['b***@example.org'],
+        message: { body: '[redacted]', html: '[redacted]', subject: 'Code' },
+        error: { name: 'Error', message: 'Rejected b***@example.org' }
+      }
+    });
+  });
+
+  it('should follow the redaction policy', () => {
+    const hashed = redactText('to jane@example.com', { emails: 'hash' });
+
+    expect(hashed).toMatch(/^to [0-9a-f]{14}@example\.com$/);
+    expect(redactText('to JANE@example.com', { emails: 'hash' })).toBe(hashed);
+    expect(redactText('to jane@example.com', { emails: 'none' })).toBe('to jane@example.com');
+    expect(redactValue({ body: 'hi', token: 'secret' }, { bodies: false, keys: ['token'] })).toEqual({
+      body: 'hi',
+      token: '[redacted]'
+    });
+  });
+
+  it('should attach the correlation ID of the message', () => {
+    const sink = new RingBufferSink();
+    const logger = new Logger({ sinks: [sink], correlationIdFor: id => (id === 'm1' ? 'corr-1' : undefined) });
+
+    logger.info('Sent', { messageId: 'm1' });
+    logger.info('Sent', { messageId: 'm2' });
+    logger.info('Started');
+
+    expect(sink.getEntries().map(entry => entry.correlationId)).toEqual(['corr-1', undefined, undefined]);
+  });
+
+  it('should keep only the most recent entries in a ring buffer', () => {
+    const sink = new RingBufferSink(2);
+    ['a', 'b', 'c'].forEach(message => sink.write({ level: 'info', message, timestamp: 0 }));
+
+    expect(sink.getEntries().map(entry => entry.message)).toEqual(['b', 'c']);
+  });
+
+  it('should keep logging when a sink throws', () => {
+    const sink = new RingBufferSink();
+    const logger = new Logger({ sinks: [{ write: () => { throw new Error('disk full'); } }, sink] });
+
+    expect(() => logger.error('Failed')).not.toThrow();
+    expect(sink.getEntries()).toHaveLength(1);
+  });
+
+  it('should write to the console and to JSON lines files', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const file = join(mkdtempSync(join(tmpdir(), 'email-logger-')), 'email.log');
+    const logger = new Logger({
+      sinks: [new ConsoleSink(), new JsonLinesFileSink(file)],
+      correlationIdFor: () => 'corr-1'
+    });
+
+    logger.warn('Rate limit exceeded', { messageId: 'm1', waitTime: 10 });
+
+    expect(warn).toHaveBeenCalledWith('[EmailService] Rate limit exceeded {"messageId":"m1","waitTime":10,"correlationId":"corr-1"}');
+    const lines = readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toEqual([expect.objectContaining({ level: 'warn', message: 'Rate limit exceeded', correlationId: 'corr-1' })]);
+
+    warn.mockRestore();
+    rmSync(dirname(file), { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,82 @@
+import { Counter, Gauge, Histogram, MetricsRegistry, renderPrometheus } from '../utils/Metrics';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('should count per label set regardless of label order', () => {
+    const counter = registry.counter('sends_total', 'Sends');
+
+    counter.inc({ provider: 'a', outcome: 'ok' });
+    counter.inc({ outcome: 'ok', provider: 'a' }, 2);
+    counter.inc({ provider: 'b', outcome: 'ok' });
+
+    expect(counter.get({ provider: 'a', outcome: 'ok' })).toBe(3);
+    expect(counter.get({ provider: 'c' })).toBe(0);
+    expect(() => counter.inc({}, -1)).toThrow('cannot be decreased');
+  });
+
+  it('should return the registered metric for a known name', () => {
+    const counter = registry.counter('sends_total', 'Sends');
+
+    expect(registry.counter('sends_total', 'Other help')).toBe(counter);
+    expect(registry.get('sends_total')).toBeInstanceOf(Counter);
+    expect(() => registry.gauge('sends_total', 'Sends')).toThrow('already registered as a counter');
+    expect(() => registry.counter('bad-name', 'Bad')).toThrow('Invalid metric name');
+  });
+
+  it('should refresh gauges when collected', () => {
+    let depth = 4;
+    const gauge = registry.gauge('queue_depth', 'Depth', metric => metric.set(depth));
+
+    expect(renderPrometheus(registry)).toContain('queue_depth 4');
+    depth = 1;
+    expect(renderPrometheus(registry)).toContain('queue_depth 1');
+    gauge.inc({ kind: 'other' }, 3);
+    gauge.dec({ kind: 'other' });
+    expect(gauge.get({ kind: 'other' })).toBe(2);
+    expect(registry.get('queue_depth')).toBeInstanceOf(Gauge);
+  });
+
+  it('should render histograms with cumulative buckets, sum and count', () => {
+    const histogram = registry.histogram('latency_seconds', 'Latency', [0.1, 1, 0.5]);
+    histogram.observe(0.05, { provider: 'a' });
+    histogram.observe(0.3, { provider: 'a' });
+    histogram.observe(7, { provider: 'a' });
+
+    expect(histogram).toBeInstanceOf(Histogram);
+    expect(histogram.get({ provider: 'a' })).toEqual({ count: 3, sum: 7.35 });
+    expect(renderPrometheus(registry)).toBe([
+      '# HELP latency_seconds Latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{provider="a",le="0.1"} 1',
+      'latency_seconds_bucket{provider="a",le="0.5"} 2',
+      'latency_seconds_bucket{provider="a",le="1"} 2',
+      'latency_seconds_bucket{provider="a",le="+Inf"} 3',
+      'latency_seconds_sum{provider="a"} 7.35',
+      'latency_seconds_count{provider="a"} 3',
+      ''
+    ].join('\n'));
+  });
+
+  it('should escape help text and label values', () => {
+    registry.counter('errors_total', 'Errors\nwith a \\ in the help').inc({ error: 'say "hi"\nbye' });
+
+    expect(renderPrometheus(registry)).toBe([
+      '# HELP errors_total Errors\\nwith a \\\\ in the help',
+      '# TYPE errors_total counter',
+      'errors_total{error="say \\"hi\\"\\nbye"} 1',
+      ''
+    ].join('\n'));
+  });
+
+  it('should zero values on reset but keep metrics registered', () => {
+    registry.counter('sends_total', 'Sends').inc();
+    registry.reset();
+
+    expect(registry.collect()).toEqual([{ name: 'sends_total', help: 'Sends', type: 'counter', samples: [] }]);
+  });
+});
@@ -0,0 +1,142 @@
+import { vi } from 'vitest';
+import { buildMimeMessage, encodeAddress, encodeHeaderValue } from '../message/MimeBuilder';
+import { parseRecipient } from '../message/addresses';
+import { EmailMessage } from '../types';
+
+describe('MimeBuilder', () => {
+  const createMessage = (overrides: Partial<EmailMessage> = {}): EmailMessage => ({
+    id: 'mime-1',
+    from: 'Sender <sender@example.com>',
+    to: [{ address: 'user@example.com', name: 'Test User' }],
+    subject: 'Test Subject',
+    body: 'Test Body',
+    timestamp: Date.now(),
+    ...overrides
+  });
+
+  const decodeWord = (word: string): string => {
+    const match = word.match(/=\?UTF-8\?B\?([^?]*)\?=/)!;
+    return Buffer.from(match[1], 'base64').toString('utf8');
+  };
+
+  it('should render a plain text message with standard headers', () => {
+    const mime = buildMimeMessage(createMessage(), { date: new Date(Date.UTC(2026, 9, 19, 14, 0, 0)) });
+    const [head, body] = mime.split('\r\n\r\n');
+
+    expect(head).toContain('From: Sender <sender@example.com>');
+    expect(head).toContain('To: Test User <user@example.com>');
+    expect(head).toContain('Subject: Test Subject');
+    expect(head).toContain('Date: Mon, 19 Oct 2026 14:00:00 +0000');
+    expect(head).toContain('Message-ID: <mime-1@example.com>');
+    expect(head).toContain('MIME-Version: 1.0');
+    expect(head).toContain('Content-Type: text/plain; charset=utf-8');
+    expect(body).toBe('Test Body');
+  });
+
+  it('should use multipart/alternative for HTML with a text part', () => {
+    const mime = buildMimeMessage(createMessage({ html: '<p>Test Body</p>' }));
+
+    expect(mime).toMatch(/Content-Type: multipart\/alternative; boundary="[^"]+"/);
+    expect(mime).toContain('Content-Type: text/plain; charset=utf-8');
+    expect(mime).toContain('Content-Type: text/html; charset=utf-8');
+    expect(mime.indexOf('text/plain')).toBeLessThan(mime.indexOf('text/html'));
+  });
+
+  it('should keep the boundary on the Content-Type line however long the random part is', () => {
+    // Tiny random values have the longest base-36 forms
+    const random = vi.spyOn(Math, 'random').mockReturnValue(0.000001);
+    const mime = buildMimeMessage(createMessage({ html: '<p>Test Body</p>' }));
+    random.mockRestore();
+
+    const header = mime.split('\r\n').find(line => line.startsWith('Content-Type: multipart/'))!;
+    expect(header).toMatch(/^Content-Type: multipart\/alternative; boundary="[^"]+"$/);
+    expect(header.length).toBeLessThanOrEqual(78);
+  });
+
+  it('should nest inline attachments in multipart/related and regular ones in multipart/mixed', () => {
+    const mime = buildMimeMessage(createMessage({
+      html: '<img src="cid:logo">',
+      attachments: [
+        { filename: 'logo.png', content: 'iVBORw0KGgo=', encoding: 'base64', contentType: 'image/png', inline: true, contentId: 'logo' },
+        { filename: 'notes.txt', content: 'hello', contentType: 'text/plain' }
+      ]
+    }));
+
+    const mixed = mime.indexOf('multipart/mixed');
+    const related = mime.indexOf('multipart/related');
+    const alternative = mime.indexOf('multipart/alternative');
+    expect(mixed).toBeGreaterThan(-1);
+    expect(related).toBeGreaterThan(mixed);
+    expect(alternative).toBeGreaterThan(related);
+    expect(mime).toContain('Content-Disposition: inline; filename="logo.png"');
+    expect(mime).toContain('Content-ID: <logo>');
+    expect(mime).toContain('Content-Disposition: attachment; filename="notes.txt"');
+    expect(mime).toContain('aGVsbG8=');
+  });
+
+  it('should never include Bcc recipients in the headers', () => {
+    const mime = buildMimeMessage(createMessage({ bcc: ['hidden@example.com'] }));
+
+    expect(mime).not.toContain('hidden@example.com');
+    expect(mime).not.toMatch(/^Bcc:/m);
+  });
+
+  it('should encode non-ASCII subjects and display names as encoded-words', () => {
+    const subject = 'Grüße aus München – Bestellung bestätigt, vielen Dank für Ihren Einkauf';
+    const mime = buildMimeMessage(createMessage({
+      subject,
+      to: [{ address: 'jose@example.com', name: 'José Núñez' }]
+    }));
+
+    const head = mime.split('\r\n\r\n')[0];
+    const subjectHeader = head.match(/^Subject: [\s\S]*?(?=\r\n\S)/m)![0];
+    const words = subjectHeader.match(/=\?UTF-8\?B\?[^?]*\?=/g)!;
+    expect(words.length).toBeGreaterThan(1);
+    words.forEach(word => expect(word.length).toBeLessThanOrEqual(75));
+    expect(words.map(decodeWord).join('')).toBe(subject);
+
+    const toHeader = head.match(/^To: (.*)$/m)![1];
+    expect(decodeWord(toHeader)).toBe('José Núñez');
+    expect(toHeader).toContain('<jose@example.com>');
+  });
+
+  it('should use quoted-printable for non-ASCII text', () => {
+    const mime = buildMimeMessage(createMessage({ body: 'Café = 5€' }));
+
+    expect(mime).toContain('Content-Transfer-Encoding: quoted-printable');
+    expect(mime).toContain('Caf=C3=A9 =3D 5=E2=82=AC');
+  });
+
+  it('should keep quoted-printable lines within 76 characters', () => {
+    const mime = buildMimeMessage(createMessage({ body: 'é'.repeat(200) }));
+    const body = mime.split('\r\n\r\n')[1];
+
+    body.split('\r\n').forEach(line => expect(line.length).toBeLessThanOrEqual(76));
+  });
+
+  it('should include custom headers and reply-to', () => {
+    const mime = buildMimeMessage(createMessage({
+      replyTo: 'support@example.com',
+      headers: { 'X-Campaign': 'welcome' }
+    }));
+
+    expect(mime).toContain('Reply-To: support@example.com');
+    expect(mime).toContain('X-Campaign: welcome');
+  });
+
+  it('should use the default sender when the message has none', () => {
+    const mime = buildMimeMessage(createMessage({ from: undefined }), { from: 'noreply@example.org' });
+
+    expect(mime).toContain('From: noreply@example.org');
+  });
+
+  it('should quote display names with special characters', () => {
+    expect(encodeAddress({ address: 'a@example.com', name: 'Doe, John' })).toBe('"Doe, John" <a@example.com>');
+    expect(encodeHeaderValue('plain text')).toBe('plain text');
+  });
+
+  it('should parse display name strings', () => {
+    expect(parseRecipient('"Doe, John" <john@example.com>')).toEqual({ address: 'john@example.com', name: 'Doe, John' });
+    expect(parseRecipient(' john@example.com ')).toEqual({ address: 'john@example.com' });
+  });
+});
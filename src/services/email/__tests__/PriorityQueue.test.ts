@@ -0,0 +1,87 @@
+import { PriorityQueue } from '../utils/PriorityQueue';
+import { EmailMessage, EmailPriority } from '../types';
+
+describe('PriorityQueue', () => {
+  let queue: PriorityQueue;
+
+  beforeEach(() => {
+    queue = new PriorityQueue({ agingIntervalMs: 1000 });
+  });
+
+  const createMessage = (id: string, priority?: EmailPriority): EmailMessage => ({
+    id,
+    to: 'test@example.com',
+    subject: 'Test Subject',
+    body: 'Test Body',
+    priority,
+    timestamp: Date.now()
+  });
+
+  it('should dequeue higher priority emails first', () => {
+    const now = Date.now();
+    queue.enqueue({ message: createMessage('low-1', 'low'), enqueuedAt: now });
+    queue.enqueue({ message: createMessage('normal-1', 'normal'), enqueuedAt: now });
+    queue.enqueue({ message: createMessage('high-1', 'high'), enqueuedAt: now });
+
+    expect(queue.dequeue(now)!.message.id).toBe('high-1');
+    expect(queue.dequeue(now)!.message.id).toBe('normal-1');
+    expect(queue.dequeue(now)!.message.id).toBe('low-1');
+    expect(queue.dequeue(now)).toBeUndefined();
+  });
+
+  it('should keep FIFO order within the same priority', () => {
+    const now = Date.now();
+    queue.enqueue({ message: createMessage('first', 'high'), enqueuedAt: now });
+    queue.enqueue({ message: createMessage('second', 'high'), enqueuedAt: now });
+
+    expect(queue.dequeue(now)!.message.id).toBe('first');
+    expect(queue.dequeue(now)!.message.id).toBe('second');
+  });
+
+  it('should treat emails without priority as normal', () => {
+    const now = Date.now();
+    queue.enqueue({ message: createMessage('default'), enqueuedAt: now });
+
+    expect(queue.sizeByPriority()).toEqual({ high: 0, normal: 1, low: 0 });
+  });
+
+  it('should age low priority emails so they are not starved', () => {
+    const now = Date.now();
+    // Waited 2.5 aging intervals: effective priority exceeds a fresh high priority email
+    queue.enqueue({ message: createMessage('old-low', 'low'), enqueuedAt: now - 2500 });
+    queue.enqueue({ message: createMessage('new-high', 'high'), enqueuedAt: now });
+
+    expect(queue.dequeue(now)!.message.id).toBe('old-low');
+    expect(queue.dequeue(now)!.message.id).toBe('new-high');
+  });
+
+  it('should report size per priority', () => {
+    const now = Date.now();
+    queue.enqueue({ message: createMessage('a', 'high'), enqueuedAt: now });
+    queue.enqueue({ message: createMessage('b', 'low'), enqueuedAt: now });
+    queue.enqueue({ message: createMessage('c', 'low'), enqueuedAt: now });
+
+    expect(queue.size()).toBe(3);
+    expect(queue.sizeByPriority()).toEqual({ high: 1, normal: 0, low: 2 });
+  });
+
+  it('should remove a specific email by id', () => {
+    const now = Date.now();
+    queue.enqueue({ message: createMessage('a', 'normal'), enqueuedAt: now });
+    queue.enqueue({ message: createMessage('b', 'normal'), enqueuedAt: now });
+
+    expect(queue.remove('a')!.message.id).toBe('a');
+    expect(queue.remove('missing')).toBeUndefined();
+    expect(queue.size()).toBe(1);
+  });
+
+  it('should skip entries rejected by the predicate without losing their place', () => {
+    const now = Date.now();
+    queue.enqueue({ message: createMessage('blocked', 'high'), enqueuedAt: now });
+    queue.enqueue({ message: createMessage('ready', 'low'), enqueuedAt: now });
+
+    expect(queue.dequeue(now, entry => entry.message.id !== 'blocked')!.message.id).toBe('ready');
+    expect(queue.dequeue(now, () => false)).toBeUndefined();
+    expect(queue.dequeue(now)!.message.id).toBe('blocked');
+  });
+});
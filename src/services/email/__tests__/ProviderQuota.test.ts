@@ -0,0 +1,48 @@
+import { vi } from 'vitest';
+import { ProviderQuota } from '../utils/ProviderQuota';
+
+describe('ProviderQuota', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should always have capacity when no limits are declared', () => {
+    const quota = new ProviderQuota();
+
+    for (let i = 0; i < 100; i++) {
+      expect(quota.tryAcquire()).toBe(true);
+    }
+    expect(quota.getStatus()).toEqual({});
+    expect(quota.getWaitTime()).toBe(0);
+  });
+
+  it('should enforce the daily quota and reset it at midnight UTC', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-01T23:59:00Z'));
+    const quota = new ProviderQuota(undefined, 2);
+
+    expect(quota.tryAcquire()).toBe(true);
+    expect(quota.tryAcquire()).toBe(true);
+    expect(quota.tryAcquire()).toBe(false);
+    expect(quota.getStatus()).toEqual({
+      dailyQuota: 2,
+      dailyRemaining: 0,
+      resetsAt: Date.parse('2024-03-02T00:00:00Z')
+    });
+    expect(quota.getWaitTime()).toBe(60000);
+
+    vi.setSystemTime(new Date('2024-03-02T00:00:01Z'));
+    expect(quota.hasCapacity()).toBe(true);
+    expect(quota.getStatus().dailyRemaining).toBe(2);
+  });
+
+  it('should enforce the provider rate limit', () => {
+    const quota = new ProviderQuota({ maxRequests: 1, windowMs: 60000 });
+
+    expect(quota.tryAcquire()).toBe(true);
+    expect(quota.hasCapacity()).toBe(false);
+    expect(quota.tryAcquire()).toBe(false);
+    expect(quota.getStatus().rateLimitTokens).toBe(0);
+    expect(quota.getWaitTime()).toBeGreaterThan(0);
+  });
+});
@@ -1,4 +1,5 @@
-import { RateLimiter } from '../utils/RateLimiter';
+import { vi } from 'vitest';
+import { KeyedRateLimiter, RateLimiter } from '../utils/RateLimiter';
 
 describe('RateLimiter', () => {
   let rateLimiter: RateLimiter;
@@ -50,4 +51,59 @@ describe('RateLimiter', () => {
     rateLimiter.acquire();
     expect(rateLimiter.getAvailableTokens()).toBe(4);
   });
-});
\ No newline at end of file
+});
+
+describe('KeyedRateLimiter', () => {
+  it('should apply per-key limits and leave other keys unaffected', () => {
+    const limiter = new KeyedRateLimiter({
+      default: { maxRequests: 2, windowMs: 60000 },
+      domains: { 'gmail.com': { maxRequests: 1, windowMs: 60000 } }
+    });
+
+    expect(limiter.acquire(['gmail.com'])).toBe(true);
+    expect(limiter.acquire(['GMAIL.com'])).toBe(false);
+    expect(limiter.acquire(['example.com'])).toBe(true);
+    expect(limiter.acquire(['example.com'])).toBe(true);
+    expect(limiter.acquire(['example.com'])).toBe(false);
+    expect(limiter.getAvailableTokens()).toEqual({ 'gmail.com': 0, 'example.com': 0 });
+  });
+
+  it('should take tokens from all keys or none', () => {
+    const limiter = new KeyedRateLimiter({ default: { maxRequests: 1, windowMs: 60000 } });
+    limiter.acquire(['b.com']);
+
+    expect(limiter.getBlockedKey(['a.com', 'b.com'])).toBe('b.com');
+    expect(limiter.acquire(['a.com', 'b.com'])).toBe(false);
+    expect(limiter.acquire(['a.com'])).toBe(true);
+    expect(limiter.getRemainingTime(['a.com', 'b.com'])).toBeGreaterThan(0);
+  });
+
+  it('should not limit keys when there is no default', () => {
+    const limiter = new KeyedRateLimiter({ domains: { 'gmail.com': { maxRequests: 1, windowMs: 60000 } } });
+
+    for (let i = 0; i < 10; i++) {
+      expect(limiter.acquire(['example.com'])).toBe(true);
+    }
+    expect(limiter.getRemainingTime(['example.com'])).toBe(0);
+  });
+
+  it('should drop buckets that have refilled once many keys were seen', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const limiter = new KeyedRateLimiter({ default: { maxRequests: 1, windowMs: 1000 } });
+
+    for (let i = 0; i < 1500; i++) {
+      limiter.acquire([`old-${i}.com`]);
+    }
+    vi.setSystemTime(5000);
+    for (let i = 0; i < 600; i++) {
+      limiter.acquire([`new-${i}.com`]);
+    }
+
+    const keys = Object.keys(limiter.getAvailableTokens());
+    expect(keys.length).toBeLessThanOrEqual(1000);
+    expect(keys.filter(key => key.startsWith('old-'))).toHaveLength(0);
+    expect(limiter.acquire(['new-0.com'])).toBe(false);
+    vi.useRealTimers();
+  });
+});
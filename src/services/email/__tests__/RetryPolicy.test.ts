@@ -0,0 +1,93 @@
+import {
+  createRetryPolicy,
+  DecorrelatedJitterPolicy,
+  ExponentialBackoffPolicy,
+  FixedDelayPolicy,
+  FullJitterPolicy,
+  LinearBackoffPolicy
+} from '../utils/RetryPolicy';
+import { RetryContext, RetryOptions } from '../types';
+
+describe('RetryPolicy', () => {
+  const options: RetryOptions = {
+    maxAttempts: 5,
+    baseDelay: 100,
+    maxDelay: 1000,
+    backoffFactor: 2
+  };
+
+  const context = (overrides: Partial<RetryContext> = {}): RetryContext => ({
+    attempt: 1,
+    elapsedMs: 0,
+    previousDelay: 0,
+    error: new Error('Temporary failure'),
+    ...overrides
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    const policy = new ExponentialBackoffPolicy(options);
+
+    expect(policy.nextDelay(context({ attempt: 1 }))).toBe(100);
+    expect(policy.nextDelay(context({ attempt: 2 }))).toBe(200);
+    expect(policy.nextDelay(context({ attempt: 3 }))).toBe(400);
+    expect(policy.nextDelay(context({ attempt: 4 }))).toBe(800);
+  });
+
+  it('should stop after the maximum number of attempts', () => {
+    const policy = new ExponentialBackoffPolicy(options);
+
+    expect(policy.nextDelay(context({ attempt: 5 }))).toBeNull();
+  });
+
+  it('should use fixed and linear delays', () => {
+    expect(new FixedDelayPolicy(options).nextDelay(context({ attempt: 3 }))).toBe(100);
+    expect(new LinearBackoffPolicy(options).nextDelay(context({ attempt: 3 }))).toBe(300);
+  });
+
+  it('should keep full jitter between zero and the exponential delay', () => {
+    const policy = new FullJitterPolicy(options);
+
+    for (let i = 0; i < 50; i++) {
+      const delay = policy.nextDelay(context({ attempt: 3 }))!;
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(400);
+    }
+  });
+
+  it('should keep decorrelated jitter between the base delay and three times the previous delay', () => {
+    const policy = new DecorrelatedJitterPolicy(options);
+
+    for (let i = 0; i < 50; i++) {
+      const delay = policy.nextDelay(context({ attempt: 2, previousDelay: 200 }))!;
+      expect(delay).toBeGreaterThanOrEqual(100);
+      expect(delay).toBeLessThanOrEqual(600);
+    }
+  });
+
+  it('should wait at least as long as the retry-after hint', () => {
+    const policy = new ExponentialBackoffPolicy(options);
+
+    expect(policy.nextDelay(context({ attempt: 1, retryAfterMs: 750 }))).toBe(750);
+  });
+
+  it('should give up when the retry-after hint exceeds the maximum delay', () => {
+    const policy = new ExponentialBackoffPolicy(options);
+
+    expect(policy.nextDelay(context({ attempt: 1, retryAfterMs: 5000 }))).toBeNull();
+  });
+
+  it('should stop when the next delay would exceed the total retry time', () => {
+    const policy = new ExponentialBackoffPolicy({ ...options, maxRetryTime: 1000 });
+
+    expect(policy.nextDelay(context({ attempt: 2, elapsedMs: 700 }))).toBe(200);
+    expect(policy.nextDelay(context({ attempt: 3, elapsedMs: 700 }))).toBeNull();
+  });
+
+  it('should build the policy selected by strategy', () => {
+    expect(createRetryPolicy(options)).toBeInstanceOf(ExponentialBackoffPolicy);
+    expect(createRetryPolicy({ ...options, strategy: 'full-jitter' })).toBeInstanceOf(FullJitterPolicy);
+    expect(createRetryPolicy({ ...options, strategy: 'decorrelated-jitter' })).toBeInstanceOf(DecorrelatedJitterPolicy);
+    expect(createRetryPolicy({ ...options, strategy: 'fixed' })).toBeInstanceOf(FixedDelayPolicy);
+    expect(createRetryPolicy({ ...options, strategy: 'linear' })).toBeInstanceOf(LinearBackoffPolicy);
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  HealthScoreStrategy,
+  LeastLatencyStrategy,
+  PriorityRoutingStrategy,
+  TagRoutingStrategy,
+  WeightedRoundRobinStrategy
+} from '../utils/RoutingStrategy';
+import { ProviderStatsTracker } from '../utils/ProviderStats';
+import { EmailMessage, EmailProvider, ProviderStats, RoutingContext } from '../types';
+
+describe('RoutingStrategy', () => {
+  const provider = (name: string): EmailProvider => ({
+    name,
+    sendEmail: async () => ({ success: true, provider: name, timestamp: Date.now() })
+  });
+  const providers = [provider('A'), provider('B'), provider('C')];
+
+  const createMessage = (tags?: string[]): EmailMessage => ({
+    id: 'route-1',
+    to: 'test@example.com',
+    subject: 'Test Subject',
+    body: 'Test Body',
+    tags,
+    timestamp: Date.now()
+  });
+
+  const context = (stats: Record<string, Partial<ProviderStats>> = {}, tags?: string[]): RoutingContext => ({
+    message: createMessage(tags),
+    getStats: name => ({ samples: 0, successRate: 1, ...stats[name] })
+  });
+
+  const names = (ordered: EmailProvider[]) => ordered.map(p => p.name);
+
+  it('should keep constructor order for priority routing', () => {
+    expect(names(new PriorityRoutingStrategy().order(providers))).toEqual(['A', 'B', 'C']);
+  });
+
+  it('should spread traffic by weight and keep the others as fallbacks', () => {
+    const strategy = new WeightedRoundRobinStrategy({ A: 3, B: 1, C: 0 });
+
+    const primaries = Array.from({ length: 8 }, () => strategy.order(providers)[0].name);
+
+    expect(primaries.filter(name => name === 'A')).toHaveLength(6);
+    expect(primaries.filter(name => name === 'B')).toHaveLength(2);
+    expect(primaries.slice(0, 4)).toEqual(['A', 'A', 'B', 'A']);
+    expect(names(strategy.order(providers))).toHaveLength(3);
+  });
+
+  it('should prefer the fastest provider and measure unknown ones first', () => {
+    const ordered = new LeastLatencyStrategy().order(providers, context({
+      A: { samples: 5, averageLatencyMs: 300 },
+      B: { samples: 5, averageLatencyMs: 100 }
+    }));
+
+    expect(names(ordered)).toEqual(['C', 'B', 'A']);
+  });
+
+  it('should prefer the healthiest provider', () => {
+    const ordered = new HealthScoreStrategy().order(providers, context({
+      A: { samples: 10, successRate: 0.5 },
+      B: { samples: 10, successRate: 0.98 },
+      C: { samples: 10, successRate: 0.97 }
+    }));
+
+    expect(names(ordered)).toEqual(['B', 'C', 'A']);
+  });
+
+  it('should order health scores consistently when neighbours are within the tolerance', () => {
+    // A and B, and B and C, are within 0.05 of each other, but A and C are not
+    const stats = {
+      A: { samples: 10, successRate: 0.9 },
+      B: { samples: 10, successRate: 0.94 },
+      C: { samples: 10, successRate: 0.98 }
+    };
+    const strategy = new HealthScoreStrategy();
+
+    expect(names(strategy.order(providers, context(stats)))).toEqual(['C', 'A', 'B']);
+    expect(names(strategy.order([providers[2], providers[0], providers[1]], context(stats)))).toEqual(['C', 'A', 'B']);
+  });
+
+  it('should route tagged messages to their providers and others to the fallback', () => {
+    const strategy = new TagRoutingStrategy(
+      { marketing: ['C', 'B'], transactional: new PriorityRoutingStrategy() },
+      new HealthScoreStrategy()
+    );
+    const stats = { A: { samples: 10, successRate: 0.1 } };
+
+    expect(names(strategy.order(providers, context(stats, ['newsletter', 'marketing'])))).toEqual(['C', 'B']);
+    expect(names(strategy.order(providers, context(stats, ['transactional'])))).toEqual(['A', 'B', 'C']);
+    expect(names(strategy.order(providers, context(stats)))).toEqual(['B', 'C', 'A']);
+  });
+
+  it('should track success rate and latency in a rolling window', () => {
+    const tracker = new ProviderStatsTracker({ windowMs: 60000, maxSamples: 3 });
+    tracker.record('A', false, 500);
+    tracker.record('A', true, 100);
+    tracker.record('A', true, 200);
+    tracker.record('A', false, 300);
+
+    expect(tracker.get('A')).toEqual({ samples: 3, successRate: 2 / 3, averageLatencyMs: 200 });
+    expect(tracker.get('B')).toEqual({ samples: 0, successRate: 1 });
+  });
+});
@@ -0,0 +1,54 @@
+import { vi } from 'vitest';
+import { Scheduler } from '../utils/Scheduler';
+import { ScheduledEmail } from '../types';
+
+describe('Scheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createEntry = (id: string, sendAt: number): ScheduledEmail => ({
+    message: { id, to: 'test@example.com', subject: 'Test Subject', body: 'Test Body', timestamp: 0 },
+    sendAt,
+    scheduledAt: 0
+  });
+
+  it('should release entries in send time order, keeping the scheduling order for ties', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const released: string[] = [];
+    const scheduler = new Scheduler(entry => released.push(entry.message.id));
+
+    scheduler.schedule(createEntry('c', 3000));
+    scheduler.schedule(createEntry('a', 1000));
+    scheduler.schedule(createEntry('b1', 2000));
+    scheduler.schedule(createEntry('b2', 2000));
+    scheduler.schedule(createEntry('c', 500)); // Rescheduled earlier
+
+    expect(scheduler.list().map(entry => entry.message.id)).toEqual(['c', 'a', 'b1', 'b2']);
+    vi.advanceTimersByTime(2000);
+    expect(released).toEqual(['c', 'a', 'b1', 'b2']);
+    expect(scheduler.size()).toBe(0);
+  });
+
+  it('should only re-arm its timer when the earliest entry changes', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const released: string[] = [];
+    const scheduler = new Scheduler(entry => released.push(entry.message.id));
+    const setTimer = vi.spyOn(globalThis, 'setTimeout');
+
+    scheduler.schedule(createEntry('first', 1000));
+    for (let i = 0; i < 100; i++) {
+      scheduler.schedule(createEntry(`later-${i}`, 5000 + i));
+    }
+    scheduler.cancel('later-50');
+    expect(setTimer).toHaveBeenCalledTimes(1);
+
+    scheduler.cancel('first');
+    expect(setTimer).toHaveBeenCalledTimes(2);
+    vi.advanceTimersByTime(5000);
+    expect(released).toEqual(['later-0']);
+    expect(scheduler.size()).toBe(98);
+  });
+});
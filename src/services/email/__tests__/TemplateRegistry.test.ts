@@ -0,0 +1,105 @@
+import { TemplateRegistry } from '../templates/TemplateRegistry';
+import { htmlToText, parseTemplate } from '../templates/TemplateEngine';
+import { TemplateError } from '../errors';
+
+describe('TemplateRegistry', () => {
+  let registry: TemplateRegistry;
+
+  beforeEach(() => {
+    registry = new TemplateRegistry();
+  });
+
+  it('should render variables, escaping them in HTML only', () => {
+    registry.register({
+      id: 'welcome',
+      subject: 'Welcome, {{user.name}}!',
+      html: '<p>Hi {{user.name}}, {{{signature}}}</p>'
+    });
+
+    const rendered = registry.render('welcome', { user: { name: 'Tom & <Jerry>' }, signature: '<b>Team</b>' });
+
+    expect(rendered.subject).toBe('Welcome, Tom & <Jerry>!');
+    expect(rendered.html).toBe('<p>Hi Tom &amp; &lt;Jerry&gt;, <b>Team</b></p>');
+    expect(rendered.text).toBe('Hi Tom & <Jerry>, Team');
+  });
+
+  it('should support conditionals, loops and partials', () => {
+    registry.registerPartial('item', '<li>{{@index}}: {{name}} x{{qty}}</li>');
+    registry.register({
+      id: 'order',
+      subject: 'Order {{id}}',
+      html: '{{#if items}}<ul>{{#each items}}{{> item}}{{/each}}</ul>{{else}}<p>Empty</p>{{/if}}'
+    });
+
+    const full = registry.render('order', { id: 1, items: [{ name: 'Pen', qty: 2 }, { name: 'Ink', qty: 1 }] });
+    const empty = registry.render('order', { id: 2, items: [] });
+
+    expect(full.html).toBe('<ul><li>0: Pen x2</li><li>1: Ink x1</li></ul>');
+    expect(empty.html).toBe('<p>Empty</p>');
+  });
+
+  it('should wrap content in a layout', () => {
+    registry.registerLayout('branded', {
+      html: '<html><body><h1>{{brand}}</h1>{{{content}}}<p>Unsubscribe: <a href="{{unsubscribeUrl}}">here</a></p></body></html>',
+      text: '{{content}}\n--\n{{brand}}'
+    });
+    registry.register({ id: 'news', subject: 'News', layout: 'branded', html: '<p>Hello {{name}}</p>', text: 'Hello {{name}}' });
+
+    const rendered = registry.render('news', { brand: 'Acme', name: '<Ann>', unsubscribeUrl: 'https://acme.test/u' });
+
+    expect(rendered.html).toBe(
+      '<html><body><h1>Acme</h1><p>Hello &lt;Ann&gt;</p><p>Unsubscribe: <a href="https://acme.test/u">here</a></p></body></html>'
+    );
+    expect(rendered.text).toBe('Hello <Ann>\n--\nAcme');
+  });
+
+  it('should version templates and render the latest unless pinned', () => {
+    const first = registry.register({ id: 'reset', subject: 'Reset v1', text: 'one' });
+    registry.register({ id: 'reset', subject: 'Reset v2', text: 'two' });
+
+    expect(registry.versions('reset')).toEqual([1, 2]);
+    expect(registry.render('reset', {})).toMatchObject({ version: 2, subject: 'Reset v2' });
+    expect(registry.render('reset', {}, 1)).toMatchObject({ version: 1, text: 'one' });
+    expect(registry.render(first, {})).toMatchObject({ version: 1 });
+    expect(() => registry.register({ id: 'reset', version: 2, subject: 'x', text: 'x' })).toThrow('already registered');
+  });
+
+  it('should check declared variables', () => {
+    const template = registry.register<{ name: string; count: number }>({
+      id: 'digest',
+      subject: '{{count}} updates',
+      text: 'Hi {{name}}',
+      variables: { name: 'string', count: 'number' }
+    });
+
+    const error = (() => {
+      try {
+        registry.render(template, { name: 'Ann', count: '3' as unknown as number });
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(TemplateError);
+    expect(error).toMatchObject({ code: 'TEMPLATE_VARIABLES_INVALID', category: 'permanent-content' });
+    expect((error as Error).message).toContain('count should be a number');
+  });
+
+  it('should reject unknown templates, partials, layouts and bad syntax', () => {
+    registry.register({ id: 'p', subject: 's', text: '{{> missing}}' });
+    registry.register({ id: 'l', subject: 's', text: 't', layout: 'missing' });
+
+    expect(() => registry.render('nope', {})).toThrow('Unknown template');
+    expect(() => registry.render('p', {})).toThrow('Unknown partial');
+    expect(() => registry.render('l', {})).toThrow('Unknown layout');
+    expect(() => parseTemplate('{{#if a}}open')).toThrow('Unclosed');
+    expect(() => parseTemplate('{{/each}}')).toThrow('Unexpected');
+  });
+
+  it('should convert HTML to text', () => {
+    const html = '<style>p{}</style><h1>Title</h1><p>Line one<br>Line two</p><ul><li>A</li><li>B</li></ul>' +
+      '<p><a href="https://x.test">Open</a> &amp; go</p>';
+
+    expect(htmlToText(html)).toBe('Title\n\nLine one\nLine two\n\n- A\n- B\n\nOpen (https://x.test) & go');
+  });
+});
@@ -0,0 +1,61 @@
+import { BasicTracer, InMemorySpanExporter, NoopTracer, formatTraceparent, parseTraceparent } from '../utils/Tracing';
+
+describe('Tracing', () => {
+  it('should parse and format W3C traceparent values', () => {
+    const value = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+    expect(parseTraceparent(value)).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      traceFlags: 1
+    });
+    expect(formatTraceparent(parseTraceparent(value)!)).toBe(value);
+    expect(parseTraceparent(undefined)).toBeUndefined();
+    expect(parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7')).toBeUndefined();
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-00f067aa0ba902b7-01`)).toBeUndefined();
+  });
+
+  it('should record spans and export them when they end', () => {
+    const exporter = new InMemorySpanExporter();
+    const tracer = new BasicTracer(exporter);
+
+    const root = tracer.startSpan('root', { attributes: { a: 1, skipped: undefined } });
+    const child = tracer.startSpan('child', { parent: root.spanContext() });
+    child.setAttribute('b', 'two').addEvent('retry', { delay: 5 }).recordException(new TypeError('boom')).setStatus('error', 'boom');
+    child.end();
+    root.setStatus('ok').setStatus('error');
+    root.end();
+    root.end();
+
+    const [finishedChild, finishedRoot] = exporter.getFinishedSpans();
+    expect(exporter.getFinishedSpans()).toHaveLength(2);
+    expect(finishedRoot).toMatchObject({ name: 'root', attributes: { a: 1 }, status: { code: 'ok' } });
+    expect(finishedRoot.parentSpanId).toBeUndefined();
+    expect(finishedRoot.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(finishedChild).toMatchObject({
+      name: 'child',
+      traceId: finishedRoot.traceId,
+      parentSpanId: finishedRoot.spanId,
+      attributes: { b: 'two' },
+      status: { code: 'error', message: 'boom' }
+    });
+    expect(finishedChild.events.map(event => [event.name, event.attributes])).toEqual([
+      ['retry', { delay: 5 }],
+      ['exception', { 'exception.type': 'TypeError', 'exception.message': 'boom' }]
+    ]);
+  });
+
+  it('should keep the parent context in no-op spans', () => {
+    const parent = parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')!;
+    const span = new NoopTracer().startSpan('noop', { parent });
+
+    expect(span.setAttribute('a', 1).spanContext()).toBe(parent);
+    expect(() => span.end()).not.toThrow();
+  });
+
+  it('should not let a failing exporter break the traced code', () => {
+    const tracer = new BasicTracer({ export: () => { throw new Error('collector down'); } });
+
+    expect(() => tracer.startSpan('span').end()).not.toThrow();
+  });
+});
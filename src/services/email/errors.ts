@@ -0,0 +1,150 @@
+import { ErrorCategory } from './types';
+
+export interface EmailProviderErrorOptions {
+  provider?: string;
+  code?: string;          // Provider specific error or reply code
+  retryAfterMs?: number;  // Delay requested by the provider before trying again
+  recipients?: string[];  // Addresses the provider rejected, when it says which
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors thrown by email providers.
+ *
+ * The category tells the service whether to retry, fall back to another
+ * provider, or give up, and whether the failure counts against the circuit breaker.
+ */
+export class EmailProviderError extends Error {
+  readonly provider?: string;
+  readonly code?: string;
+  readonly retryAfterMs?: number;
+  readonly recipients?: string[];
+  readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    options: EmailProviderErrorOptions = {}
+  ) {
+    super(message);
+    this.name = 'EmailProviderError';
+    this.provider = options.provider;
+    this.code = options.code;
+    this.retryAfterMs = options.retryAfterMs;
+    this.recipients = options.recipients;
+    this.cause = options.cause;
+  }
+}
+
+export class TransientError extends EmailProviderError {
+  constructor(message: string, options?: EmailProviderErrorOptions) {
+    super(message, 'transient', options);
+    this.name = 'TransientError';
+  }
+}
+
+export class RateLimitedError extends EmailProviderError {
+  constructor(message: string, options?: EmailProviderErrorOptions) {
+    super(message, 'rate-limited', options);
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class PermanentRecipientError extends EmailProviderError {
+  constructor(message: string, options?: EmailProviderErrorOptions) {
+    super(message, 'permanent-recipient', options);
+    this.name = 'PermanentRecipientError';
+  }
+}
+
+export class PermanentContentError extends EmailProviderError {
+  constructor(message: string, options?: EmailProviderErrorOptions) {
+    super(message, 'permanent-content', options);
+    this.name = 'PermanentContentError';
+  }
+}
+
+export class AuthConfigError extends EmailProviderError {
+  constructor(message: string, options?: EmailProviderErrorOptions) {
+    super(message, 'auth-config', options);
+    this.name = 'AuthConfigError';
+  }
+}
+
+/**
+ * A provider call that ran past its attempt timeout, or a delivery that ran past its deadline
+ */
+export class TimeoutError extends TransientError {
+  constructor(message: string, options: EmailProviderErrorOptions = {}) {
+    super(message, { code: 'TIMEOUT', ...options });
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Aborts a delivery cancelled with EmailService.cancelEmail
+ */
+export class CancelledError extends EmailProviderError {
+  constructor(messageId: string) {
+    super(`Email ${messageId} was cancelled`, 'cancelled', { code: 'CANCELLED' });
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * A template that is missing, malformed or rendered with invalid variables
+ */
+export class TemplateError extends PermanentContentError {
+  constructor(message: string, code: string) {
+    super(message, { code });
+    this.name = 'TemplateError';
+  }
+}
+
+/**
+ * Thrown by the circuit breaker while it is rejecting calls
+ */
+export class CircuitOpenError extends TransientError {
+  constructor(message: string = 'Circuit breaker is OPEN') {
+    super(message);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Thrown before an attempt when a provider has used up its own rate limit or daily quota
+ */
+export class QuotaExhaustedError extends RateLimitedError {
+  constructor(provider: string, retryAfterMs?: number) {
+    super(`${provider}: Sending quota exhausted`, { provider, code: 'QUOTA_EXHAUSTED', retryAfterMs });
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+/**
+ * Errors that are not EmailProviderErrors are treated as transient
+ */
+export function classifyError(error: unknown): ErrorCategory {
+  return error instanceof EmailProviderError ? error.category : 'transient';
+}
+
+/**
+ * Whether the same provider should be tried again
+ */
+export function isRetryable(category: ErrorCategory): boolean {
+  return category === 'transient' || category === 'rate-limited';
+}
+
+/**
+ * Whether another provider might succeed where this one failed
+ */
+export function shouldFallback(category: ErrorCategory): boolean {
+  return category !== 'permanent-recipient' && category !== 'permanent-content' && category !== 'cancelled';
+}
+
+/**
+ * Whether the failure says something about the provider's health
+ */
+export function countsAgainstCircuit(category: ErrorCategory): boolean {
+  return category === 'transient' || category === 'auth-config';
+}
@@ -1,7 +1,27 @@
 export * from './types';
+export * from './errors';
 export * from './EmailService';
 export * from './providers/MockProviderA';
 export * from './providers/MockProviderB';
+export * from './message/addresses';
+export * from './message/addressParser';
+export * from './message/punycode';
+export * from './message/MimeBuilder';
+export * from './message/validation';
+export * from './message/fingerprint';
+export * from './storage/InMemoryStorage';
 export * from './utils/RateLimiter';
 export * from './utils/CircuitBreaker';
-export * from './utils/Logger';
\ No newline at end of file
+export * from './utils/Logger';
+export * from './utils/PriorityQueue';
+export * from './utils/RetryPolicy';
+export * from './utils/DeadLetterQueue';
+export * from './utils/EventEmitter';
+export * from './utils/Scheduler';
+export * from './utils/ProviderQuota';
+export * from './utils/ProviderStats';
+export * from './utils/RoutingStrategy';
+export * from './utils/Metrics';
+export * from './utils/Tracing';
+export * from './templates/TemplateEngine';
+export * from './templates/TemplateRegistry';
\ No newline at end of file
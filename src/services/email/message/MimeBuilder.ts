@@ -0,0 +1,315 @@
+import { EmailAddress, EmailAttachment, EmailMessage, Recipient } from '../types';
+import { PermanentContentError } from '../errors';
+import { parseRecipient, toAddressList } from './addresses';
+
+export interface MimeBuildOptions {
+  from?: Recipient;         // Used when the message has no `from`
+  date?: Date;              // Defaults to now
+  messageIdDomain?: string; // Defaults to the domain of the From address
+}
+
+interface MimeLeaf {
+  headers: Array<[string, string]>;
+  body: string;
+}
+
+interface MimeMultipart {
+  subtype: 'mixed' | 'related' | 'alternative';
+  parts: MimeNode[];
+}
+
+type MimeNode = MimeLeaf | MimeMultipart;
+
+const CRLF = '\r\n';
+const MAX_LINE_LENGTH = 76;
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const encoder = new TextEncoder();
+
+/**
+ * Headers generated by the builder that must not be set through `message.headers`
+ */
+export const RESERVED_HEADERS = [
+  'from',
+  'to',
+  'cc',
+  'bcc',
+  'reply-to',
+  'subject',
+  'date',
+  'message-id',
+  'mime-version',
+  'content-type',
+  'content-transfer-encoding',
+  'content-disposition'
+];
+
+/**
+ * Render a message as an RFC 5322 document with MIME parts.
+ *
+ * Layout: multipart/mixed (regular attachments) > multipart/related (inline
+ * attachments) > multipart/alternative (text and HTML). Levels that are not
+ * needed are left out. Bcc recipients are never written to the headers.
+ */
+export function buildMimeMessage(message: EmailMessage, options: MimeBuildOptions = {}): string {
+  const fromValue = message.from ?? options.from;
+  if (fromValue === undefined) {
+    throw new PermanentContentError('A From address is required to build a MIME message');
+  }
+
+  const from = parseRecipient(fromValue);
+  const domain = options.messageIdDomain || from.address.split('@')[1] || 'localhost';
+  const headers: Array<[string, string]> = [
+    ['From', encodeAddress(from)],
+    ['Date', formatDate(options.date || new Date())],
+    ['Message-ID', `<${message.id.replace(/[^A-Za-z0-9._-]/g, '-')}@${domain}>`]
+  ];
+
+  const to = toAddressList(message.to);
+  const cc = toAddressList(message.cc);
+  const replyTo = toAddressList(message.replyTo);
+  if (to.length > 0) headers.push(['To', to.map(encodeAddress).join(`,${CRLF} `)]);
+  if (cc.length > 0) headers.push(['Cc', cc.map(encodeAddress).join(`,${CRLF} `)]);
+  if (replyTo.length > 0) headers.push(['Reply-To', replyTo.map(encodeAddress).join(`,${CRLF} `)]);
+  headers.push(['Subject', encodeHeaderValue(message.subject)]);
+
+  Object.entries(message.headers || {}).forEach(([name, value]) => {
+    headers.push([name, encodeHeaderValue(value)]);
+  });
+
+  headers.push(['MIME-Version', '1.0']);
+
+  const root = renderNode(buildTree(message));
+  return [...headers, ...root.headers]
+    .map(([name, value]) => foldHeader(`${name}: ${value}`))
+    .join(CRLF) + CRLF + CRLF + root.body;
+}
+
+/**
+ * Encode a header value as RFC 2047 encoded-words when it contains non-ASCII text
+ */
+export function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+  return encodeWords(value);
+}
+
+/**
+ * Format an address for a header, quoting or encoding the display name as needed
+ */
+export function encodeAddress(address: EmailAddress): string {
+  if (!address.name) {
+    return address.address;
+  }
+
+  let name: string;
+  if (!/^[\x20-\x7e]*$/.test(address.name)) {
+    name = encodeWords(address.name);
+  } else if (/[()<>[\]:;@\\,."]/.test(address.name)) {
+    name = `"${address.name.replace(/(["\\])/g, '\\$1')}"`;
+  } else {
+    name = address.name;
+  }
+
+  return `${name} <${address.address}>`;
+}
+
+function buildTree(message: EmailMessage): MimeNode {
+  const attachments = message.attachments || [];
+  const inline = attachments.filter(attachment => attachment.inline);
+  const regular = attachments.filter(attachment => !attachment.inline);
+
+  let content: MimeNode = textPart('plain', message.body);
+  if (message.html !== undefined) {
+    content = { subtype: 'alternative', parts: [content, textPart('html', message.html)] };
+  }
+  if (inline.length > 0) {
+    content = { subtype: 'related', parts: [content, ...inline.map(attachmentPart)] };
+  }
+  if (regular.length > 0) {
+    content = { subtype: 'mixed', parts: [content, ...regular.map(attachmentPart)] };
+  }
+
+  return content;
+}
+
+function textPart(subtype: 'plain' | 'html', text: string): MimeLeaf {
+  const normalized = text.replace(/\r?\n/g, CRLF);
+  const isSevenBit =
+    Array.from(normalized).every(char => char.charCodeAt(0) < 128) &&
+    normalized.split(CRLF).every(line => line.length <= MAX_LINE_LENGTH);
+
+  return {
+    headers: [
+      ['Content-Type', `text/${subtype}; charset=utf-8`],
+      ['Content-Transfer-Encoding', isSevenBit ? '7bit' : 'quoted-printable']
+    ],
+    body: isSevenBit ? normalized : encodeQuotedPrintable(normalized)
+  };
+}
+
+function attachmentPart(attachment: EmailAttachment): MimeLeaf {
+  const contentType = attachment.contentType || 'application/octet-stream';
+  const data = attachment.encoding === 'base64'
+    ? attachment.content.replace(/\s+/g, '')
+    : encodeBase64(encoder.encode(attachment.content));
+
+  const headers: Array<[string, string]> = [
+    ['Content-Type', `${contentType}; ${formatParameter('name', attachment.filename)}`],
+    ['Content-Transfer-Encoding', 'base64'],
+    [
+      'Content-Disposition',
+      `${attachment.inline ? 'inline' : 'attachment'}; ${formatParameter('filename', attachment.filename)}`
+    ]
+  ];
+  if (attachment.contentId) {
+    headers.push(['Content-ID', `<${attachment.contentId}>`]);
+  }
+
+  return { headers, body: wrap(data, MAX_LINE_LENGTH) };
+}
+
+function renderNode(node: MimeNode): MimeLeaf {
+  if (!('subtype' in node)) {
+    return node;
+  }
+
+  const boundary = `----=_Part_${Math.random().toString(36).slice(2, 10)}${Date.now().toString(36)}`;
+  const body = node.parts
+    .map(part => {
+      const rendered = renderNode(part);
+      const headers = rendered.headers.map(([name, value]) => foldHeader(`${name}: ${value}`));
+      return `--${boundary}${CRLF}${headers.join(CRLF)}${CRLF}${CRLF}${rendered.body}${CRLF}`;
+    })
+    .join('');
+
+  return {
+    headers: [['Content-Type', `multipart/${node.subtype}; boundary="${boundary}"`]],
+    body: `${body}--${boundary}--`
+  };
+}
+
+/**
+ * RFC 2231 parameter, percent-encoded when the value is not plain ASCII
+ */
+function formatParameter(name: string, value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return `${name}="${value.replace(/(["\\])/g, '\\$1')}"`;
+  }
+  const encoded = encodeURIComponent(value).replace(
+    /['()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `${name}*=UTF-8''${encoded}`;
+}
+
+/**
+ * Split text into "B" encoded-words of at most 75 characters, never splitting a character
+ */
+function encodeWords(text: string): string {
+  const words: string[] = [];
+  let chunk = '';
+  let chunkBytes = 0;
+
+  for (const char of text) {
+    const size = encoder.encode(char).length;
+    // 45 bytes become 60 base64 characters, keeping each word within 75 characters
+    if (chunkBytes + size > 45) {
+      words.push(chunk);
+      chunk = '';
+      chunkBytes = 0;
+    }
+    chunk += char;
+    chunkBytes += size;
+  }
+  if (chunk) words.push(chunk);
+
+  return words
+    .map(word => `=?UTF-8?B?${encodeBase64(encoder.encode(word))}?=`)
+    .join(`${CRLF} `);
+}
+
+function encodeQuotedPrintable(text: string): string {
+  return text
+    .split(CRLF)
+    .map(line => {
+      const bytes = encoder.encode(line);
+      const tokens: string[] = [];
+      bytes.forEach((byte, index) => {
+        const isTrailingWhitespace = (byte === 0x20 || byte === 0x09) && index === bytes.length - 1;
+        if ((byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 0x20 || byte === 0x09) && !isTrailingWhitespace)) {
+          tokens.push(String.fromCharCode(byte));
+        } else {
+          tokens.push(`=${byte.toString(16).toUpperCase().padStart(2, '0')}`);
+        }
+      });
+
+      // Soft line breaks keep lines within 76 characters without splitting an escape
+      const lines: string[] = [];
+      let current = '';
+      for (const token of tokens) {
+        if (current.length + token.length > MAX_LINE_LENGTH - 1) {
+          lines.push(`${current}=`);
+          current = '';
+        }
+        current += token;
+      }
+      lines.push(current);
+      return lines.join(CRLF);
+    })
+    .join(CRLF);
+}
+
+/**
+ * Base64 without relying on Buffer or btoa, so it works in any runtime
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    output += BASE64_ALPHABET[(chunk >> 18) & 63];
+    output += BASE64_ALPHABET[(chunk >> 12) & 63];
+    output += i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : '=';
+    output += i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63] : '=';
+  }
+  return output;
+}
+
+function wrap(text: string, width: number): string {
+  const lines: string[] = [];
+  for (let i = 0; i < text.length; i += width) {
+    lines.push(text.slice(i, i + width));
+  }
+  return lines.join(CRLF);
+}
+
+/**
+ * Fold header lines longer than 78 characters at whitespace
+ */
+function foldHeader(header: string): string {
+  return header
+    .split(CRLF)
+    .map((line, index) => {
+      const folded: string[] = [];
+      let rest = line;
+      // Never fold directly after the header name
+      let minBreak = index === 0 ? line.indexOf(': ') + 2 : 1;
+      while (rest.length > 78) {
+        const breakAt = rest.lastIndexOf(' ', 78);
+        if (breakAt < minBreak) break;
+        minBreak = 1;
+        folded.push(rest.slice(0, breakAt));
+        rest = rest.slice(breakAt);
+      }
+      folded.push(rest);
+      return folded.join(CRLF);
+    })
+    .join(CRLF);
+}
+
+/**
+ * RFC 5322 date, e.g. "Mon, 19 Oct 2026 14:00:00 +0000"
+ */
+function formatDate(date: Date): string {
+  return date.toUTCString().replace('GMT', '+0000');
+}
@@ -0,0 +1,285 @@
+import { AddressPolicy } from '../types';
+import { domainToASCII, domainToUnicode } from './punycode';
+
+export interface AddressCheck {
+  input: string;
+  valid: boolean;
+  error?: string;       // Why the address is invalid
+  address?: string;     // Normalized: trimmed, domain lower-cased and in its ASCII (punycode) form
+  localPart?: string;
+  domain?: string;      // Unicode form, e.g. "bücher.de"
+  asciiDomain?: string; // e.g. "xn--bcher-kva.de"
+  disposable: boolean;  // Domain belongs to a throwaway mailbox service
+  role: boolean;        // Local part is a role account such as "info" or "postmaster"
+  suggestion?: string;  // Likely intended address when the domain looks misspelt
+}
+
+const MAX_LOCAL_OCTETS = 64;
+const MAX_DOMAIN_LENGTH = 253;
+const MAX_LABEL_LENGTH = 63;
+const MAX_ADDRESS_OCTETS = 254;
+
+// atext from RFC 5322 plus any non-ASCII character (RFC 6531)
+const DOT_ATOM_PATTERN = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~\-\u0080-\u{10ffff}]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~\-\u0080-\u{10ffff}]+)*$/u;
+const LABEL_PATTERN = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/;
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+const IPV6_PATTERN = /^IPv6:[0-9A-Fa-f:.]+$/;
+
+export const DISPOSABLE_DOMAINS = [
+  '10minutemail.com', 'discard.email', 'dispostable.com', 'fakeinbox.com', 'getnada.com',
+  'guerrillamail.com', 'mailinator.com', 'maildrop.cc', 'mintemail.com', 'mohmal.com',
+  'sharklasers.com', 'spamgourmet.com', 'temp-mail.org', 'tempmail.com', 'throwawaymail.com',
+  'trashmail.com', 'yopmail.com'
+];
+
+export const ROLE_ACCOUNTS = [
+  'abuse', 'admin', 'administrator', 'billing', 'contact', 'help', 'hostmaster', 'info',
+  'marketing', 'no-reply', 'noc', 'noreply', 'office', 'postmaster', 'sales', 'security',
+  'support', 'team', 'webmaster'
+];
+
+// Domains that typos are checked against
+const COMMON_DOMAINS = [
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'ymail.com', 'hotmail.com', 'outlook.com',
+  'live.com', 'msn.com', 'aol.com', 'icloud.com', 'me.com', 'mail.com', 'gmx.com', 'gmx.de',
+  'web.de', 'proton.me', 'protonmail.com', 'yandex.ru', 'comcast.net', 'verizon.net'
+];
+
+const TLD_TYPOS: Record<string, string> = {
+  con: 'com', cmo: 'com', ocm: 'com', vom: 'com', xom: 'com', comm: 'com', coom: 'com',
+  nte: 'net', ent: 'net', nett: 'net', ogr: 'org', rog: 'org', orgg: 'org'
+};
+
+/**
+ * Parse and check one address (no display name). Supports RFC 5322 dot-atom
+ * and quoted local parts, domain literals such as `user@[192.0.2.1]`, and
+ * RFC 6531 internationalized addresses; Unicode domains are converted to punycode.
+ * Comments and folding whitespace inside the address are not accepted.
+ */
+export function checkAddress(input: string, policy: AddressPolicy = {}): AddressCheck {
+  const result: AddressCheck = { input, valid: false, disposable: false, role: false };
+  const fail = (error: string): AddressCheck => ({ ...result, error });
+
+  const trimmed = input.trim().normalize('NFC');
+  if (!trimmed) {
+    return fail('Address is empty');
+  }
+
+  const local = readLocalPart(trimmed);
+  if (typeof local === 'string') {
+    return fail(local);
+  }
+  if (trimmed[local.end] !== '@') {
+    return fail('Address must contain a single @ after the local part');
+  }
+  if (octets(local.value) > MAX_LOCAL_OCTETS) {
+    return fail(`Local part is longer than ${MAX_LOCAL_OCTETS} octets`);
+  }
+
+  const domain = readDomain(trimmed.slice(local.end + 1));
+  if (typeof domain === 'string') {
+    return fail(domain);
+  }
+
+  const address = `${local.value}@${domain.ascii}`;
+  if (octets(address) > MAX_ADDRESS_OCTETS) {
+    return fail(`Address is longer than ${MAX_ADDRESS_OCTETS} octets`);
+  }
+
+  const disposableDomains = [...DISPOSABLE_DOMAINS, ...(policy.disposableDomains || [])];
+  const roleAccounts = [...ROLE_ACCOUNTS, ...(policy.roleAccounts || [])];
+  // Sub-addressing ("sales+eu") does not make a role account personal
+  const mailbox = local.value.replace(/^"|"$/g, '').split('+')[0].toLowerCase();
+  const suggestedDomain = domain.literal ? undefined : suggestDomain(domain.ascii);
+
+  return {
+    ...result,
+    valid: true,
+    address,
+    localPart: local.value,
+    domain: domain.unicode,
+    asciiDomain: domain.ascii,
+    disposable: disposableDomains.some(entry => domain.ascii === entry || domain.ascii.endsWith(`.${entry}`)),
+    role: roleAccounts.includes(mailbox),
+    suggestion: suggestedDomain && `${local.value}@${suggestedDomain}`
+  };
+}
+
+/**
+ * Normalized form of an address, or undefined when it is invalid
+ */
+export function normalizeAddress(input: string): string | undefined {
+  return checkAddress(input).address;
+}
+
+/**
+ * Problems the policy rejects the address for, empty when it is acceptable
+ */
+export function getAddressProblems(check: AddressCheck, policy: AddressPolicy = {}): string[] {
+  if (!check.valid) {
+    return [`Invalid email address: ${check.input} (${check.error})`];
+  }
+
+  const problems: string[] = [];
+  if (policy.rejectDisposable && check.disposable) {
+    problems.push(`Disposable email address: ${check.address}`);
+  }
+  if (policy.rejectRoleAccounts && check.role) {
+    problems.push(`Role account address: ${check.address}`);
+  }
+  if (policy.rejectTypos && check.suggestion) {
+    problems.push(`Possible typo in ${check.address}, did you mean ${check.suggestion}?`);
+  }
+  return problems;
+}
+
+function readLocalPart(text: string): { value: string; end: number } | string {
+  if (!text.startsWith('"')) {
+    const end = text.lastIndexOf('@');
+    if (end <= 0) {
+      return end === 0 ? 'Local part is empty' : 'Address must contain an @';
+    }
+    const value = text.slice(0, end);
+    if (!DOT_ATOM_PATTERN.test(value)) {
+      return /\s/.test(value)
+        ? 'Local part contains whitespace'
+        : 'Local part contains invalid characters or misplaced dots';
+    }
+    return { value, end };
+  }
+
+  // Quoted string: printable characters, spaces and backslash escapes
+  let content = '';
+  for (let index = 1; index < text.length; index++) {
+    const char = text[index];
+    if (char === '"') {
+      const value = needsQuoting(content) ? `"${quote(content)}"` : content;
+      return { value, end: index + 1 };
+    }
+    if (char === '\\') {
+      index++;
+      if (index >= text.length || /[\r\n]/.test(text[index])) {
+        return 'Invalid escape in quoted local part';
+      }
+      content += text[index];
+    } else if ((char < ' ' && char !== '\t') || char === '\x7f') {
+      return 'Quoted local part contains control characters';
+    } else {
+      content += char;
+    }
+  }
+  return 'Unterminated quoted local part';
+}
+
+function needsQuoting(content: string): boolean {
+  return !DOT_ATOM_PATTERN.test(content);
+}
+
+function quote(content: string): string {
+  return content.replace(/(["\\])/g, '\\$1');
+}
+
+function readDomain(text: string): { ascii: string; unicode: string; literal: boolean } | string {
+  if (!text) {
+    return 'Domain is empty';
+  }
+
+  if (text.startsWith('[') && text.endsWith(']')) {
+    const literal = text.slice(1, -1);
+    const ipv4 = literal.match(IPV4_PATTERN);
+    if (ipv4 && ipv4.slice(1).every(part => Number(part) <= 255)) {
+      return { ascii: text, unicode: text, literal: true };
+    }
+    if (IPV6_PATTERN.test(literal) && literal.split(':').length >= 3) {
+      return { ascii: `[IPv6:${literal.slice(5).toLowerCase()}]`, unicode: text, literal: true };
+    }
+    return `Invalid domain literal: ${text}`;
+  }
+
+  const lower = text.toLowerCase();
+  let ascii: string;
+  let unicode: string;
+  try {
+    ascii = domainToASCII(lower);
+    unicode = domainToUnicode(ascii);
+  } catch {
+    return `Invalid punycode in domain: ${text}`;
+  }
+
+  const labels = ascii.split('.');
+  if (labels.length < 2) {
+    return 'Domain needs at least two labels';
+  }
+  if (ascii.length > MAX_DOMAIN_LENGTH) {
+    return `Domain is longer than ${MAX_DOMAIN_LENGTH} characters`;
+  }
+  for (const label of labels) {
+    if (!label) {
+      return 'Domain contains an empty label';
+    }
+    if (label.length > MAX_LABEL_LENGTH) {
+      return `Domain label is longer than ${MAX_LABEL_LENGTH} characters`;
+    }
+    if (!LABEL_PATTERN.test(label)) {
+      return `Invalid domain label: ${label}`;
+    }
+  }
+  if (/^\d+$/.test(labels[labels.length - 1])) {
+    return 'Top-level domain cannot be numeric';
+  }
+
+  return { ascii, unicode, literal: false };
+}
+
+/**
+ * Closest common domain when the domain is probably a typo, e.g. "gmial.com" gives "gmail.com"
+ */
+function suggestDomain(domain: string): string | undefined {
+  if (COMMON_DOMAINS.includes(domain)) {
+    return undefined;
+  }
+
+  const tld = domain.slice(domain.lastIndexOf('.') + 1);
+  const name = domain.slice(0, -tld.length);
+
+  let best: { domain: string; distance: number } | undefined;
+  for (const candidate of COMMON_DOMAINS) {
+    // The same name under another TLD is usually a real domain, e.g. "protonmail.ch"
+    if (candidate.slice(0, candidate.lastIndexOf('.') + 1) === name) {
+      continue;
+    }
+    const distance = editDistance(domain, candidate);
+    if (!best || distance < best.distance) {
+      best = { domain: candidate, distance };
+    }
+  }
+  // Short domains need a closer match, otherwise "acme.com" would become "me.com"
+  if (best && best.distance <= (domain.length >= 10 ? 2 : 1)) {
+    return best.domain;
+  }
+
+  return TLD_TYPOS[tld] && `${domain.slice(0, -tld.length)}${TLD_TYPOS[tld]}`;
+}
+
+/**
+ * Optimal string alignment distance: edits, insertions, deletions and adjacent swaps
+ */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+function octets(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
@@ -0,0 +1,89 @@
+import { EmailAddress, EmailMessage, Recipient } from '../types';
+import { normalizeAddress } from './addressParser';
+
+/**
+ * Turn a recipient into a structured address.
+ * Strings may be a bare address or use the "Display Name <address>" form.
+ */
+export function parseRecipient(recipient: Recipient): EmailAddress {
+  if (typeof recipient !== 'string') {
+    return { address: recipient.address.trim(), name: recipient.name };
+  }
+
+  const match = recipient.trim().match(/^(.*?)\s*<([^<>]*)>$/);
+  if (!match) {
+    return { address: recipient.trim() };
+  }
+
+  let name = match[1].trim();
+  if (name.startsWith('"') && name.endsWith('"') && name.length >= 2) {
+    name = name.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+
+  return name ? { address: match[2].trim(), name } : { address: match[2].trim() };
+}
+
+export function toAddressList(value?: Recipient | Recipient[]): EmailAddress[] {
+  if (value === undefined) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).map(parseRecipient);
+}
+
+/**
+ * Every address the message is delivered to: to, cc and bcc
+ */
+export function getEnvelopeRecipients(message: EmailMessage): EmailAddress[] {
+  return [
+    ...toAddressList(message.to),
+    ...toAddressList(message.cc),
+    ...toAddressList(message.bcc)
+  ];
+}
+
+/**
+ * Distinct lower-cased domains of every envelope recipient
+ */
+export function getRecipientDomains(message: EmailMessage): string[] {
+  const domains = getEnvelopeRecipients(message).map(recipient =>
+    recipient.address.slice(recipient.address.lastIndexOf('@') + 1).toLowerCase()
+  );
+  return Array.from(new Set(domains));
+}
+
+/**
+ * Human readable form, used for status tracking and logs (not for MIME headers)
+ */
+export function formatAddress(address: EmailAddress): string {
+  return address.name ? `${address.name} <${address.address}>` : address.address;
+}
+
+export function formatRecipients(value?: Recipient | Recipient[]): string {
+  return toAddressList(value).map(formatAddress).join(', ');
+}
+
+/**
+ * Copy of the message with every valid address normalized (see checkAddress).
+ * Recipients keep their form: bare strings stay strings and display names are kept.
+ */
+export function normalizeMessageAddresses(message: EmailMessage): EmailMessage {
+  const normalize = (recipient: Recipient): Recipient => {
+    const parsed = parseRecipient(recipient);
+    const address = normalizeAddress(parsed.address);
+    if (address === undefined || address === parsed.address) {
+      return recipient;
+    }
+    return typeof recipient === 'string' && !parsed.name ? address : { ...parsed, address };
+  };
+  const normalizeList = <T extends Recipient | Recipient[] | undefined>(value: T): T =>
+    (value === undefined ? value : Array.isArray(value) ? value.map(normalize) : normalize(value)) as T;
+
+  return {
+    ...message,
+    to: normalizeList(message.to),
+    cc: normalizeList(message.cc),
+    bcc: normalizeList(message.bcc),
+    from: normalizeList(message.from),
+    replyTo: normalizeList(message.replyTo)
+  };
+}
@@ -0,0 +1,61 @@
+import { EmailMessage, Recipient } from '../types';
+import { formatAddress, toAddressList } from './addresses';
+import { normalizeAddress } from './addressParser';
+
+/**
+ * The key used to deduplicate sends: `idempotencyKey` when set, otherwise the message ID
+ */
+export function getIdempotencyKey(message: EmailMessage): string {
+  return message.idempotencyKey ?? message.id;
+}
+
+/**
+ * Hash of everything that ends up in the delivered email. Delivery settings
+ * such as priority, retry overrides or the schedule are left out, so a retry
+ * of the same email under the same key is not mistaken for a conflict.
+ */
+export function fingerprintMessage(message: EmailMessage): string {
+  // Normalized, so "Ann@Example.com" and "Ann@example.com" count as the same email
+  const addresses = (value?: Recipient | Recipient[]) => toAddressList(value).map(address =>
+    formatAddress({ ...address, address: normalizeAddress(address.address) ?? address.address })
+  );
+  const headers = Object.keys(message.headers || {})
+    .sort()
+    .map(name => [name.toLowerCase(), message.headers![name]]);
+
+  const payload = JSON.stringify([
+    addresses(message.to),
+    addresses(message.cc),
+    addresses(message.bcc),
+    addresses(message.from),
+    addresses(message.replyTo),
+    message.subject,
+    message.body,
+    message.html ?? null,
+    headers,
+    (message.attachments || []).map(attachment => [
+      attachment.filename,
+      attachment.contentType ?? null,
+      attachment.encoding ?? 'utf8',
+      attachment.content
+    ])
+  ]);
+
+  return hashText(payload);
+}
+
+/**
+ * 53-bit string hash (cyrb53); not cryptographic, but runs anywhere without Node's crypto module
+ */
+export function hashText(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
@@ -0,0 +1,143 @@
+// Punycode (RFC 3492) for internationalized domain names, without relying on
+// Node's deprecated punycode module so it also runs in the browser.
+
+const BASE = 36;
+const T_MIN = 1;
+const T_MAX = 26;
+const SKEW = 38;
+const DAMP = 700;
+const INITIAL_BIAS = 72;
+const INITIAL_N = 128;
+
+function adapt(delta: number, points: number, firstTime: boolean): number {
+  delta = firstTime ? Math.floor(delta / DAMP) : delta >> 1;
+  delta += Math.floor(delta / points);
+  let k = 0;
+  while (delta > ((BASE - T_MIN) * T_MAX) >> 1) {
+    delta = Math.floor(delta / (BASE - T_MIN));
+    k += BASE;
+  }
+  return k + Math.floor(((BASE - T_MIN + 1) * delta) / (delta + SKEW));
+}
+
+function threshold(k: number, bias: number): number {
+  return k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias;
+}
+
+// 0-25 are a-z, 26-35 are 0-9
+function encodeDigit(digit: number): string {
+  return String.fromCharCode(digit < 26 ? digit + 97 : digit + 22);
+}
+
+function decodeDigit(code: number): number {
+  if (code >= 48 && code <= 57) return code - 22;
+  if (code >= 65 && code <= 90) return code - 65;
+  if (code >= 97 && code <= 122) return code - 97;
+  return BASE;
+}
+
+/**
+ * Encode one label, e.g. "bücher" becomes "bcher-kva"
+ */
+export function encodePunycode(input: string): string {
+  const codePoints = Array.from(input, char => char.codePointAt(0)!);
+  let output = codePoints.filter(code => code < 0x80).map(code => String.fromCharCode(code)).join('');
+  const basicLength = output.length;
+  if (basicLength > 0) {
+    output += '-';
+  }
+
+  let n = INITIAL_N;
+  let delta = 0;
+  let bias = INITIAL_BIAS;
+  let handled = basicLength;
+
+  while (handled < codePoints.length) {
+    const next = Math.min(...codePoints.filter(code => code >= n));
+    delta += (next - n) * (handled + 1);
+    n = next;
+
+    for (const code of codePoints) {
+      if (code < n) delta++;
+      if (code !== n) continue;
+
+      let q = delta;
+      for (let k = BASE; ; k += BASE) {
+        const t = threshold(k, bias);
+        if (q < t) break;
+        output += encodeDigit(t + ((q - t) % (BASE - t)));
+        q = Math.floor((q - t) / (BASE - t));
+      }
+      output += encodeDigit(q);
+      bias = adapt(delta, handled + 1, handled === basicLength);
+      delta = 0;
+      handled++;
+    }
+
+    delta++;
+    n++;
+  }
+
+  return output;
+}
+
+/**
+ * Decode one label; throws on malformed input
+ */
+export function decodePunycode(input: string): string {
+  const separator = input.lastIndexOf('-');
+  const output = Array.from(input.slice(0, Math.max(separator, 0)), char => char.charCodeAt(0));
+  if (output.some(code => code >= 0x80)) {
+    throw new Error(`Invalid punycode: ${input}`);
+  }
+
+  let n = INITIAL_N;
+  let bias = INITIAL_BIAS;
+  let i = 0;
+
+  for (let index = separator > 0 ? separator + 1 : 0; index < input.length; ) {
+    const previous = i;
+    let weight = 1;
+    for (let k = BASE; ; k += BASE) {
+      const digit = index < input.length ? decodeDigit(input.charCodeAt(index++)) : BASE;
+      if (digit >= BASE) {
+        throw new Error(`Invalid punycode: ${input}`);
+      }
+      i += digit * weight;
+      const t = threshold(k, bias);
+      if (digit < t) break;
+      weight *= BASE - t;
+    }
+
+    const length = output.length + 1;
+    bias = adapt(i - previous, length, previous === 0);
+    n += Math.floor(i / length);
+    i %= length;
+    if (n > 0x10ffff) {
+      throw new Error(`Invalid punycode: ${input}`);
+    }
+    output.splice(i++, 0, n);
+  }
+
+  return String.fromCodePoint(...output);
+}
+
+/**
+ * ASCII form of a domain: non-ASCII labels become "xn--" labels
+ */
+export function domainToASCII(domain: string): string {
+  return domain
+    .split('.')
+    .map(label => (/[\u0080-\uffff]/.test(label) ? `xn--${encodePunycode(label)}` : label))
+    .join('.');
+}
+
+/**
+ * Unicode form of a domain; throws when an "xn--" label is malformed
+ */
+export function domainToUnicode(domain: string): string {
+  return domain
+    .split('.')
+    .map(label => (label.toLowerCase().startsWith('xn--') ? decodePunycode(label.slice(4).toLowerCase()) : label))
+    .join('.');
+}
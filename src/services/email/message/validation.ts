@@ -0,0 +1,90 @@
+import { AddressPolicy, EmailMessage, Recipient, ValidationIssue } from '../types';
+import { getEnvelopeRecipients, parseRecipient, toAddressList } from './addresses';
+import { checkAddress, getAddressProblems } from './addressParser';
+import { RESERVED_HEADERS } from './MimeBuilder';
+
+const HEADER_NAME_PATTERN = /^[!-9;-~]+$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Check a message before it reaches any provider; returns an empty list when it is valid
+ */
+export function validateMessage(message: EmailMessage, addressPolicy?: AddressPolicy): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const content = (field: string, text: string) =>
+    issues.push({ field, message: text, category: 'permanent-content' });
+  const recipient = (field: string, text: string) =>
+    issues.push({ field, message: text, category: 'permanent-recipient' });
+
+  if (!message.id || !message.id.trim()) {
+    content('id', 'Message ID is required');
+  }
+
+  if (getEnvelopeRecipients(message).length === 0) {
+    recipient('to', 'At least one recipient is required');
+  }
+
+  const addressFields: Array<[string, Recipient | Recipient[] | undefined]> = [
+    ['to', message.to],
+    ['cc', message.cc],
+    ['bcc', message.bcc],
+    ['replyTo', message.replyTo]
+  ];
+  addressFields.forEach(([field, value]) => {
+    // Reply-To is not delivered to, so only its syntax matters
+    const policy = field === 'replyTo' ? undefined : addressPolicy;
+    toAddressList(value).forEach(address => {
+      const check = checkAddress(address.address, policy);
+      getAddressProblems(check, policy).forEach(problem => recipient(field, problem));
+    });
+  });
+
+  if (message.from !== undefined) {
+    const sender = checkAddress(parseRecipient(message.from).address);
+    if (!sender.valid) {
+      content('from', `Invalid sender address: ${sender.input} (${sender.error})`);
+    }
+  }
+
+  if (/[\r\n]/.test(message.subject)) {
+    content('subject', 'Subject must not contain line breaks');
+  }
+
+  if (!message.body && !message.html) {
+    content('body', 'Either a text body or HTML is required');
+  }
+
+  Object.entries(message.headers || {}).forEach(([name, value]) => {
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      content('headers', `Invalid header name: ${name}`);
+    } else if (RESERVED_HEADERS.includes(name.toLowerCase())) {
+      content('headers', `Header ${name} is set by the service and cannot be overridden`);
+    }
+    if (/[\r\n]/.test(value)) {
+      content('headers', `Header ${name} must not contain line breaks`);
+    }
+  });
+
+  if (message.sendAt !== undefined && !Number.isFinite(message.sendAt)) {
+    content('sendAt', 'sendAt must be a timestamp in milliseconds');
+  }
+
+  if (message.delayMs !== undefined && (!Number.isFinite(message.delayMs) || message.delayMs < 0)) {
+    content('delayMs', 'delayMs must be a non-negative number');
+  }
+
+  (message.attachments || []).forEach((attachment, index) => {
+    const field = `attachments[${index}]`;
+    if (!attachment.filename) {
+      content(field, 'Attachment filename is required');
+    }
+    if (attachment.encoding === 'base64' && !BASE64_PATTERN.test(attachment.content.replace(/\s+/g, ''))) {
+      content(field, 'Attachment content is not valid base64');
+    }
+    if (attachment.inline && !attachment.contentId) {
+      content(field, 'Inline attachments need a contentId');
+    }
+  });
+
+  return issues;
+}
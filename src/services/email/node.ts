@@ -0,0 +1,10 @@
+// Server-side providers and modules that need Node built-ins; the main entry stays usable in the browser
+export * from './providers/SmtpProvider';
+export * from './providers/smtp/SmtpConnection';
+export * from './providers/smtp/SmtpConnectionPool';
+export * from './providers/HttpApiProvider';
+export * from './providers/http/mappers';
+export * from './providers/http/auth';
+export * from './providers/http/parsers';
+export * from './storage/FileStorage';
+export * from './utils/JsonLinesFileSink';
\ No newline at end of file
@@ -0,0 +1,200 @@
+import {
+  EmailProvider,
+  EmailMessage,
+  EmailResult,
+  ErrorCategory,
+  HttpApiResponse,
+  HttpAuthStrategy,
+  HttpRequestMapper,
+  HttpResponseParser,
+  ProviderRateLimit,
+  RateLimitOptions,
+  Recipient
+} from '../types';
+import {
+  AuthConfigError,
+  EmailProviderError,
+  PermanentContentError,
+  PermanentRecipientError,
+  RateLimitedError,
+  TransientError
+} from '../errors';
+import { jsonResponseParser } from './http/parsers';
+
+export interface HttpApiProviderOptions {
+  name: string;
+  endpoint: string;
+  mapper: HttpRequestMapper;       // Turns a message into the API's request body, see http/mappers
+  parser?: HttpResponseParser;     // Reads message IDs and error details, defaults to jsonResponseParser
+  auth?: HttpAuthStrategy;         // See http/auth
+  from?: Recipient;                // Sender used when a message has no `from`
+  headers?: Record<string, string>; // Sent with every request
+  timeout?: number;                // Request timeout in ms, defaults to 30000
+  fetch?: typeof fetch;            // Custom fetch implementation, defaults to the global one
+  rateLimit?: RateLimitOptions;    // The API's sending limit, enforced by EmailService
+  dailyQuota?: number;
+}
+
+/**
+ * Parse Retry-After, which is either delay-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+(\.\d+)?$/.test(value.trim())) {
+    return Math.ceil(parseFloat(value) * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Read the common X-RateLimit-* headers. The reset value may be seconds until
+ * reset or an epoch timestamp in seconds; both are converted to epoch ms.
+ */
+export function parseRateLimitHeaders(headers: Headers, now: number = Date.now()): ProviderRateLimit | undefined {
+  const number = (name: string) => {
+    const value = headers.get(name);
+    return value !== null && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+  };
+
+  const limit = number('x-ratelimit-limit');
+  const remaining = number('x-ratelimit-remaining');
+  const reset = number('x-ratelimit-reset');
+  if (limit === undefined && remaining === undefined && reset === undefined) {
+    return undefined;
+  }
+
+  // Anything earlier than 2001-09-09 is treated as a relative number of seconds
+  const resetAt = reset === undefined ? undefined : reset > 1e9 ? reset * 1000 : now + reset * 1000;
+  return { limit, remaining, resetAt };
+}
+
+/**
+ * Email provider for JSON-over-HTTP mail APIs such as SendGrid or Amazon SES.
+ *
+ * The request shape, authentication and response parsing are pluggable, so a
+ * new API usually only needs a mapper. Status codes are mapped onto the
+ * provider error taxonomy: 429 is rate-limited, 401/403 are configuration
+ * errors, 408 and 5xx are transient and other 4xx responses are permanent.
+ */
+export class HttpApiProvider implements EmailProvider {
+  name: string;
+  rateLimit?: RateLimitOptions;
+  dailyQuota?: number;
+
+  constructor(private options: HttpApiProviderOptions) {
+    this.name = options.name;
+    this.rateLimit = options.rateLimit;
+    this.dailyQuota = options.dailyQuota;
+  }
+
+  async sendEmail(message: EmailMessage, signal?: AbortSignal): Promise<EmailResult> {
+    const request = this.options.mapper(message, { from: this.options.from });
+    let headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+      ...this.options.headers,
+      ...request.headers
+    };
+    if (this.options.auth) {
+      headers = this.options.auth(headers);
+    }
+
+    const response = await this.request(request.url || this.options.endpoint, {
+      method: request.method || 'POST',
+      headers,
+      body: JSON.stringify(request.body)
+    }, signal);
+
+    const parsed = await this.readResponse(response);
+    const details = (this.options.parser || jsonResponseParser)(parsed);
+    const rateLimit = parseRateLimitHeaders(response.headers);
+
+    if (response.ok) {
+      return {
+        success: true,
+        messageId: details.messageId || message.id,
+        provider: this.name,
+        ...(rateLimit && { rateLimit }),
+        timestamp: Date.now()
+      };
+    }
+
+    const text = `${this.name}: HTTP ${response.status}${details.errorMessage ? `: ${details.errorMessage}` : ''}`;
+    throw this.statusToError(response, text, details.errorCode || String(response.status), details.errorCategory);
+  }
+
+  private async request(url: string, init: RequestInit, signal?: AbortSignal): Promise<Response> {
+    const fetchImpl = this.options.fetch || fetch;
+    const controller = new AbortController();
+    const timeout = this.options.timeout ?? 30000;
+    const timer = setTimeout(() => controller.abort(), timeout);
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+
+    try {
+      return await fetchImpl(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      // Aborted by the caller, e.g. EmailService's attempt timeout or cancellation
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      const reason = controller.signal.aborted
+        ? `request timed out after ${timeout}ms`
+        : error instanceof Error ? error.message : String(error);
+      throw new TransientError(`${this.name}: ${reason}`, { provider: this.name, cause: error });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  private async readResponse(response: Response): Promise<HttpApiResponse> {
+    const text = await response.text();
+    let body: unknown = text;
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Not JSON, keep the raw text for the parser
+      }
+    }
+    return { status: response.status, headers: response.headers, body };
+  }
+
+  private statusToError(
+    response: Response,
+    text: string,
+    code: string,
+    category?: ErrorCategory
+  ): EmailProviderError {
+    const options = { provider: this.name, code };
+    const status = response.status;
+
+    if (status === 429 || category === 'rate-limited') {
+      const rateLimit = parseRateLimitHeaders(response.headers);
+      const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'))
+        ?? (rateLimit?.resetAt !== undefined ? Math.max(0, rateLimit.resetAt - Date.now()) : undefined);
+      return new RateLimitedError(text, { ...options, retryAfterMs });
+    }
+
+    switch (category) {
+      case 'transient':
+        return new TransientError(text, options);
+      case 'permanent-recipient':
+        return new PermanentRecipientError(text, options);
+      case 'permanent-content':
+        return new PermanentContentError(text, options);
+      case 'auth-config':
+        return new AuthConfigError(text, options);
+    }
+
+    if (status === 401 || status === 403 || status === 404 || status === 405) {
+      return new AuthConfigError(text, options);
+    }
+    if (status === 408 || status >= 500) {
+      return new TransientError(text, options);
+    }
+    return new PermanentContentError(text, options);
+  }
+}
@@ -1,4 +1,6 @@
 import { EmailProvider, EmailMessage, EmailResult } from '../types';
+import { PermanentRecipientError, TransientError } from '../errors';
+import { getEnvelopeRecipients } from '../message/addresses';
 
 /**
  * Mock Email Provider A - Simulates a primary email service
@@ -9,18 +11,22 @@ export class MockProviderA implements EmailProvider {
   private failureRate = 0.3;
   private latencyMs = 100;
 
-  async sendEmail(message: EmailMessage): Promise<EmailResult> {
+  async sendEmail(message: EmailMessage, signal?: AbortSignal): Promise<EmailResult> {
     // Simulate network latency
-    await this.delay(this.latencyMs + Math.random() * 200);
+    await this.delay(this.latencyMs + Math.random() * 200, signal);
 
     // Simulate random failures
     if (Math.random() < this.failureRate) {
-      throw new Error(`${this.name}: Network timeout or service unavailable`);
+      throw new TransientError(`${this.name}: Network timeout or service unavailable`, { provider: this.name });
     }
 
     // Simulate specific email validation failures
-    if (message.to.includes('invalid')) {
-      throw new Error(`${this.name}: Invalid email address format`);
+    const invalid = getEnvelopeRecipients(message).filter(recipient => recipient.address.includes('invalid'));
+    if (invalid.length > 0) {
+      throw new PermanentRecipientError(`${this.name}: Invalid email address format`, {
+        provider: this.name,
+        recipients: invalid.map(recipient => recipient.address)
+      });
     }
 
     return {
@@ -31,8 +37,18 @@ export class MockProviderA implements EmailProvider {
     };
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      }, { once: true });
+    });
   }
 
   // Method to adjust failure rate for testing
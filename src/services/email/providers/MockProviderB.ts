@@ -1,4 +1,6 @@
 import { EmailProvider, EmailMessage, EmailResult } from '../types';
+import { PermanentRecipientError, TransientError } from '../errors';
+import { getEnvelopeRecipients } from '../message/addresses';
 
 /**
  * Mock Email Provider B - Simulates a backup email service
@@ -9,18 +11,22 @@ export class MockProviderB implements EmailProvider {
   private failureRate = 0.2;
   private latencyMs = 150;
 
-  async sendEmail(message: EmailMessage): Promise<EmailResult> {
+  async sendEmail(message: EmailMessage, signal?: AbortSignal): Promise<EmailResult> {
     // Simulate higher latency than Provider A
-    await this.delay(this.latencyMs + Math.random() * 300);
+    await this.delay(this.latencyMs + Math.random() * 300, signal);
 
     // Simulate random failures
     if (Math.random() < this.failureRate) {
-      throw new Error(`${this.name}: Rate limit exceeded or temporary service error`);
+      throw new TransientError(`${this.name}: Rate limit exceeded or temporary service error`, { provider: this.name });
     }
 
     // Simulate different validation patterns
-    if (message.to.includes('blocked')) {
-      throw new Error(`${this.name}: Recipient blocked or domain not allowed`);
+    const blocked = getEnvelopeRecipients(message).filter(recipient => recipient.address.includes('blocked'));
+    if (blocked.length > 0) {
+      throw new PermanentRecipientError(`${this.name}: Recipient blocked or domain not allowed`, {
+        provider: this.name,
+        recipients: blocked.map(recipient => recipient.address)
+      });
     }
 
     return {
@@ -31,8 +37,18 @@ export class MockProviderB implements EmailProvider {
     };
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      }, { once: true });
+    });
   }
 
   // Method to adjust failure rate for testing
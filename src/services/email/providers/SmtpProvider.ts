@@ -0,0 +1,76 @@
+import { EmailProvider, EmailMessage, EmailResult, RateLimitOptions, Recipient } from '../types';
+import { AuthConfigError } from '../errors';
+import { getEnvelopeRecipients, parseRecipient } from '../message/addresses';
+import { buildMimeMessage } from '../message/MimeBuilder';
+import { SmtpConnectionOptions } from './smtp/SmtpConnection';
+import { SmtpConnectionPool, SmtpPoolOptions } from './smtp/SmtpConnectionPool';
+
+export interface SmtpProviderOptions extends SmtpConnectionOptions {
+  name?: string;         // Defaults to 'SMTP'
+  from?: Recipient;      // Sender used when a message has no `from`
+  pool?: SmtpPoolOptions;
+  rateLimit?: RateLimitOptions; // The server's sending limit, enforced by EmailService
+  dailyQuota?: number;
+}
+
+/**
+ * Email provider that delivers over SMTP.
+ *
+ * Supports STARTTLS or implicit TLS, AUTH PLAIN/LOGIN, PIPELINING and a pool
+ * of reusable connections. SMTP replies are mapped onto the provider error
+ * taxonomy: 4xx replies are transient, 5xx replies are permanent.
+ */
+export class SmtpProvider implements EmailProvider {
+  name: string;
+  rateLimit?: RateLimitOptions;
+  dailyQuota?: number;
+  private readonly pool: SmtpConnectionPool;
+
+  constructor(private options: SmtpProviderOptions) {
+    this.name = options.name || 'SMTP';
+    this.rateLimit = options.rateLimit;
+    this.dailyQuota = options.dailyQuota;
+    this.pool = new SmtpConnectionPool(options, options.pool, this.name);
+  }
+
+  async sendEmail(message: EmailMessage, signal?: AbortSignal): Promise<EmailResult> {
+    const sender = message.from ?? this.options.from;
+    if (sender === undefined) {
+      throw new AuthConfigError(`${this.name}: No sender address configured`, { provider: this.name });
+    }
+
+    const envelope = {
+      from: parseRecipient(sender).address,
+      to: getEnvelopeRecipients(message).map(recipient => recipient.address)
+    };
+    const data = buildMimeMessage(message, { from: sender });
+
+    const connection = await this.pool.acquire();
+    // A transaction cannot be interrupted safely, but it need not start once aborted
+    if (signal?.aborted) {
+      this.pool.release(connection);
+      throw signal.reason;
+    }
+    try {
+      const reply = await connection.send(envelope, data);
+      // Servers usually report their queue ID, e.g. "250 2.0.0 Ok: queued as 4F1A2B"
+      const queueId = reply.lines.join(' ').match(/queued as\s+(\S+)/i)?.[1];
+
+      return {
+        success: true,
+        messageId: queueId || message.id,
+        provider: this.name,
+        timestamp: Date.now()
+      };
+    } finally {
+      this.pool.release(connection);
+    }
+  }
+
+  /**
+   * Close all pooled connections
+   */
+  async close(): Promise<void> {
+    await this.pool.close();
+  }
+}
@@ -0,0 +1,97 @@
+import * as http from 'node:http';
+import * as net from 'node:net';
+
+export interface ReceivedRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: unknown; // Parsed JSON, or the raw text when the body is not JSON
+}
+
+export interface FakeHttpResponse {
+  status?: number;                  // Defaults to 200
+  headers?: Record<string, string>;
+  body?: unknown;                   // Objects are sent as JSON, strings as-is
+  delayMs?: number;                 // Hold the response back, e.g. to trigger client timeouts
+}
+
+export type FakeHttpHandler = (request: ReceivedRequest) => FakeHttpResponse;
+
+/**
+ * In-process stand-in for a mail API. Every request is recorded in `requests`
+ * and answered by the handler, which defaults to `200 { "id": "fake-N" }`.
+ */
+export class FakeHttpApiServer {
+  readonly requests: ReceivedRequest[] = [];
+  private readonly server: http.Server;
+  private readonly sockets: Set<net.Socket> = new Set();
+  private readonly timers: Set<ReturnType<typeof setTimeout>> = new Set();
+  private counter = 0;
+
+  constructor(private handler?: FakeHttpHandler) {
+    this.server = http.createServer((req, res) => this.onRequest(req, res));
+    this.server.on('connection', socket => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+  }
+
+  async listen(port: number = 0): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(port, '127.0.0.1', resolve));
+    return this.url;
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as net.AddressInfo).port}`;
+  }
+
+  /**
+   * Replace the handler for subsequent requests
+   */
+  respondWith(handler: FakeHttpHandler): void {
+    this.handler = handler;
+  }
+
+  async close(): Promise<void> {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.sockets.forEach(socket => socket.destroy());
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private onRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      let body: unknown = text;
+      try {
+        body = text ? JSON.parse(text) : undefined;
+      } catch {
+        // Keep the raw text
+      }
+
+      const request: ReceivedRequest = { method: req.method || 'GET', path: req.url || '/', headers: req.headers, body };
+      this.requests.push(request);
+
+      const response = this.handler?.(request) ?? { body: { id: `fake-${++this.counter}` } };
+      const send = () => {
+        const payload = typeof response.body === 'string' ? response.body : JSON.stringify(response.body ?? {});
+        res.writeHead(response.status ?? 200, {
+          'Content-Type': typeof response.body === 'string' ? 'text/plain' : 'application/json',
+          ...response.headers
+        });
+        res.end(payload);
+      };
+
+      if (response.delayMs) {
+        const timer = setTimeout(() => {
+          this.timers.delete(timer);
+          send();
+        }, response.delayMs);
+        this.timers.add(timer);
+      } else {
+        send();
+      }
+    });
+  }
+}
@@ -0,0 +1,24 @@
+import { HttpAuthStrategy } from '../../types';
+import { encodeBase64 } from '../../message/MimeBuilder';
+
+/**
+ * Authorization: Bearer <token>
+ */
+export function bearerAuth(token: string): HttpAuthStrategy {
+  return headers => ({ ...headers, Authorization: `Bearer ${token}` });
+}
+
+/**
+ * Authorization: Basic <base64(user:pass)>
+ */
+export function basicAuth(user: string, pass: string): HttpAuthStrategy {
+  const credentials = encodeBase64(new TextEncoder().encode(`${user}:${pass}`));
+  return headers => ({ ...headers, Authorization: `Basic ${credentials}` });
+}
+
+/**
+ * API key in a custom header, e.g. X-Api-Key
+ */
+export function apiKeyAuth(header: string, key: string): HttpAuthStrategy {
+  return headers => ({ ...headers, [header]: key });
+}
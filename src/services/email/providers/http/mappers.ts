@@ -0,0 +1,120 @@
+import { EmailAddress, EmailMessage, HttpRequestMapper, Recipient } from '../../types';
+import { parseRecipient, toAddressList } from '../../message/addresses';
+import { buildMimeMessage, encodeBase64 } from '../../message/MimeBuilder';
+
+const encoder = new TextEncoder();
+
+function attachmentContent(content: string, encoding?: 'utf8' | 'base64'): string {
+  return encoding === 'base64' ? content.replace(/\s+/g, '') : encodeBase64(encoder.encode(content));
+}
+
+function sender(message: EmailMessage, defaults: { from?: Recipient }): EmailAddress | undefined {
+  const from = message.from ?? defaults.from;
+  return from === undefined ? undefined : parseRecipient(from);
+}
+
+/**
+ * SendGrid v3 mail/send payload
+ */
+export const sendGridMapper: HttpRequestMapper = (message, defaults) => {
+  const toSendGrid = (address: EmailAddress) =>
+    address.name ? { email: address.address, name: address.name } : { email: address.address };
+  const cc = toAddressList(message.cc);
+  const bcc = toAddressList(message.bcc);
+  const replyTo = toAddressList(message.replyTo);
+  const from = sender(message, defaults);
+
+  const content = [{ type: 'text/plain', value: message.body }];
+  if (message.html !== undefined) {
+    content.push({ type: 'text/html', value: message.html });
+  }
+
+  return {
+    body: {
+      personalizations: [
+        {
+          to: toAddressList(message.to).map(toSendGrid),
+          ...(cc.length > 0 && { cc: cc.map(toSendGrid) }),
+          ...(bcc.length > 0 && { bcc: bcc.map(toSendGrid) })
+        }
+      ],
+      ...(from && { from: toSendGrid(from) }),
+      ...(replyTo.length > 0 && { reply_to_list: replyTo.map(toSendGrid) }),
+      subject: message.subject,
+      content,
+      ...(message.headers && { headers: message.headers }),
+      ...(message.attachments && {
+        attachments: message.attachments.map(attachment => ({
+          content: attachmentContent(attachment.content, attachment.encoding),
+          filename: attachment.filename,
+          type: attachment.contentType || 'application/octet-stream',
+          disposition: attachment.inline ? 'inline' : 'attachment',
+          ...(attachment.contentId && { content_id: attachment.contentId })
+        }))
+      }),
+      custom_args: { message_id: message.id }
+    }
+  };
+};
+
+/**
+ * Amazon SES v2 SendEmail payload. Messages with attachments or custom headers
+ * are sent as raw MIME, since the simple content form cannot carry them.
+ */
+export const sesMapper: HttpRequestMapper = (message, defaults) => {
+  const from = sender(message, defaults);
+  const addresses = (value?: Recipient | Recipient[]) => toAddressList(value).map(address => address.address);
+  const replyTo = addresses(message.replyTo);
+
+  const needsRaw = (message.attachments?.length ?? 0) > 0 || Object.keys(message.headers || {}).length > 0;
+  const content = needsRaw
+    ? { Raw: { Data: encodeBase64(encoder.encode(buildMimeMessage(message, { from: defaults.from }))) } }
+    : {
+        Simple: {
+          Subject: { Data: message.subject, Charset: 'UTF-8' },
+          Body: {
+            Text: { Data: message.body, Charset: 'UTF-8' },
+            ...(message.html !== undefined && { Html: { Data: message.html, Charset: 'UTF-8' } })
+          }
+        }
+      };
+
+  return {
+    body: {
+      ...(from && { FromEmailAddress: from.name ? `${from.name} <${from.address}>` : from.address }),
+      Destination: {
+        ToAddresses: addresses(message.to),
+        CcAddresses: addresses(message.cc),
+        BccAddresses: addresses(message.bcc)
+      },
+      ...(replyTo.length > 0 && { ReplyToAddresses: replyTo }),
+      Content: content
+    }
+  };
+};
+
+/**
+ * Provider-neutral JSON payload for in-house mail gateways
+ */
+export const jsonMapper: HttpRequestMapper = (message, defaults) => {
+  const from = sender(message, defaults);
+  return {
+    body: {
+      id: message.id,
+      ...(from && { from }),
+      to: toAddressList(message.to),
+      cc: toAddressList(message.cc),
+      bcc: toAddressList(message.bcc),
+      replyTo: toAddressList(message.replyTo),
+      subject: message.subject,
+      text: message.body,
+      ...(message.html !== undefined && { html: message.html }),
+      headers: message.headers || {},
+      attachments: (message.attachments || []).map(attachment => ({
+        ...attachment,
+        content: attachmentContent(attachment.content, attachment.encoding),
+        encoding: 'base64'
+      }))
+    }
+  };
+};
@@ -0,0 +1,65 @@
+import { HttpResponseDetails, HttpResponseParser } from '../../types';
+
+type JsonObject = Record<string, unknown>;
+
+function asObject(body: unknown): JsonObject {
+  return body !== null && typeof body === 'object' ? (body as JsonObject) : {};
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
+
+/**
+ * SendGrid returns the message ID in X-Message-Id and errors as { errors: [{ message, field }] }
+ */
+export const sendGridResponseParser: HttpResponseParser = response => {
+  const errors = asObject(response.body).errors;
+  const details: HttpResponseDetails = {
+    messageId: response.headers.get('x-message-id') || undefined
+  };
+
+  if (Array.isArray(errors) && errors.length > 0) {
+    const entries = errors.map(asObject);
+    details.errorMessage = entries.map(entry => asString(entry.message)).filter(Boolean).join('; ');
+    details.errorCode = asString(entries[0].error_id) || asString(entries[0].field);
+
+    const recipientFields = /^personalizations\.\d+\.(to|cc|bcc)/;
+    if (entries.some(entry => recipientFields.test(asString(entry.field) || ''))) {
+      details.errorCategory = 'permanent-recipient';
+    }
+  }
+
+  return details;
+};
+
+/**
+ * SES returns { MessageId } on success and { message, __type } (or a code) on failure
+ */
+export const sesResponseParser: HttpResponseParser = response => {
+  const body = asObject(response.body);
+  return {
+    messageId: asString(body.MessageId),
+    errorCode: asString(body.__type) || asString(body.code) || asString(body.Code),
+    errorMessage: asString(body.message) || asString(body.Message)
+  };
+};
+
+/**
+ * Generic parser for JSON APIs: { id | messageId | message_id } and { error | message }
+ */
+export const jsonResponseParser: HttpResponseParser = response => {
+  const body = asObject(response.body);
+  const error = body.error;
+  const errorObject = asObject(error);
+
+  return {
+    messageId: asString(body.id) || asString(body.messageId) || asString(body.message_id),
+    errorCode: asString(errorObject.code) || asString(body.code),
+    errorMessage:
+      asString(error) ||
+      asString(errorObject.message) ||
+      asString(body.message) ||
+      (typeof response.body === 'string' ? response.body : undefined)
+  };
+};
@@ -0,0 +1,309 @@
+import * as net from 'node:net';
+import * as tls from 'node:tls';
+
+export interface FakeSmtpServerOptions {
+  hostname?: string;                        // Name announced in the greeting, defaults to 'fake-smtp.local'
+  tls?: { key: string; cert: string };      // Offer STARTTLS with this key pair
+  auth?: { user: string; pass: string };    // Require AUTH PLAIN or LOGIN with these credentials
+  pipelining?: boolean;                     // Advertise PIPELINING, defaults to true
+  /**
+   * Override replies, e.g. `{ rcpt: to => to.startsWith('bad') ? '550 5.1.1 No such user' : undefined }`.
+   * Returning undefined keeps the default reply.
+   */
+  handlers?: {
+    mail?: (from: string) => string | undefined;
+    rcpt?: (to: string) => string | undefined;
+    data?: (message: ReceivedMessage) => string | undefined;
+  };
+}
+
+export interface ReceivedMessage {
+  from: string;
+  to: string[];
+  data: string;
+  secure: boolean;
+  user?: string;
+}
+
+interface Session {
+  socket: net.Socket;
+  buffer: string;
+  secure: boolean;
+  user?: string;
+  from?: string;
+  to: string[];
+  data?: string[];
+  authStep?: { method: 'PLAIN' | 'LOGIN'; user?: string };
+}
+
+/**
+ * In-process SMTP server for tests. It accepts every message into `messages`
+ * unless a handler overrides a reply, so delivery can be tested end to end
+ * without network access.
+ */
+export class FakeSmtpServer {
+  readonly messages: ReceivedMessage[] = [];
+  readonly commands: string[] = [];
+  connectionCount = 0;
+  private readonly server: net.Server;
+  private readonly sockets: Set<net.Socket> = new Set();
+  private queueCounter = 0;
+
+  constructor(private options: FakeSmtpServerOptions = {}) {
+    this.server = net.createServer(socket => this.onConnection(socket));
+  }
+
+  async listen(port: number = 0): Promise<number> {
+    await new Promise<void>(resolve => this.server.listen(port, '127.0.0.1', resolve));
+    return this.port;
+  }
+
+  get port(): number {
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  async close(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy());
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private onConnection(socket: net.Socket): void {
+    this.connectionCount++;
+    const session: Session = { socket, buffer: '', secure: false, to: [] };
+    this.bind(session, socket);
+    this.reply(session, `220 ${this.hostname} ESMTP ready`);
+  }
+
+  private bind(session: Session, socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.onData(session, chunk));
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => this.sockets.delete(socket));
+  }
+
+  private onData(session: Session, chunk: string): void {
+    session.buffer += chunk;
+
+    let index: number;
+    while ((index = session.buffer.indexOf('\r\n')) !== -1) {
+      const line = session.buffer.slice(0, index);
+      session.buffer = session.buffer.slice(index + 2);
+
+      if (session.data) {
+        this.onDataLine(session, line);
+      } else if (this.onCommand(session, line) === 'upgraded') {
+        // Anything sent before the TLS handshake must be discarded
+        return;
+      }
+    }
+  }
+
+  private onDataLine(session: Session, line: string): void {
+    if (line !== '.') {
+      session.data!.push(line.startsWith('..') ? line.slice(1) : line);
+      return;
+    }
+
+    const message: ReceivedMessage = {
+      from: session.from!,
+      to: [...session.to],
+      data: session.data!.join('\r\n'),
+      secure: session.secure,
+      user: session.user
+    };
+    session.data = undefined;
+    session.from = undefined;
+    session.to = [];
+
+    const override = this.options.handlers?.data?.(message);
+    if (override) {
+      this.reply(session, override);
+      return;
+    }
+
+    this.messages.push(message);
+    this.reply(session, `250 2.0.0 Ok: queued as FAKE${++this.queueCounter}`);
+  }
+
+  private onCommand(session: Session, line: string): 'upgraded' | void {
+    this.commands.push(line);
+
+    if (session.authStep) {
+      this.onAuthLine(session, line);
+      return;
+    }
+
+    const [verb, ...rest] = line.split(' ');
+    const argument = rest.join(' ');
+
+    switch (verb.toUpperCase()) {
+      case 'EHLO': {
+        const extensions = ['8BITMIME', 'SMTPUTF8'];
+        if (this.options.pipelining !== false) extensions.push('PIPELINING');
+        if (this.options.tls && !session.secure) extensions.push('STARTTLS');
+        if (this.options.auth) extensions.push('AUTH PLAIN LOGIN');
+        this.replyLines(session, 250, [this.hostname, ...extensions]);
+        return;
+      }
+      case 'HELO':
+        this.reply(session, `250 ${this.hostname}`);
+        return;
+      case 'STARTTLS':
+        if (!this.options.tls || session.secure) {
+          this.reply(session, '502 5.5.1 STARTTLS not available');
+          return;
+        }
+        this.reply(session, '220 2.0.0 Ready to start TLS');
+        this.upgrade(session);
+        return 'upgraded';
+      case 'AUTH':
+        this.onAuth(session, argument);
+        return;
+      case 'MAIL': {
+        if (this.options.auth && !session.user) {
+          this.reply(session, '530 5.7.0 Authentication required');
+          return;
+        }
+        const from = this.extractAddress(argument);
+        const override = this.options.handlers?.mail?.(from);
+        if (override) {
+          this.reply(session, override);
+          return;
+        }
+        session.from = from;
+        session.to = [];
+        this.reply(session, '250 2.1.0 Ok');
+        return;
+      }
+      case 'RCPT': {
+        if (session.from === undefined) {
+          this.reply(session, '503 5.5.1 Need MAIL command first');
+          return;
+        }
+        const to = this.extractAddress(argument);
+        const override = this.options.handlers?.rcpt?.(to);
+        if (override) {
+          this.reply(session, override);
+          return;
+        }
+        session.to.push(to);
+        this.reply(session, '250 2.1.5 Ok');
+        return;
+      }
+      case 'DATA':
+        if (session.to.length === 0) {
+          this.reply(session, '554 5.5.1 No valid recipients');
+          return;
+        }
+        session.data = [];
+        this.reply(session, '354 End data with <CR><LF>.<CR><LF>');
+        return;
+      case 'RSET':
+        session.from = undefined;
+        session.to = [];
+        this.reply(session, '250 2.0.0 Ok');
+        return;
+      case 'NOOP':
+        this.reply(session, '250 2.0.0 Ok');
+        return;
+      case 'QUIT':
+        this.reply(session, '221 2.0.0 Bye');
+        session.socket.end();
+        return;
+      default:
+        this.reply(session, '502 5.5.2 Command not recognized');
+    }
+  }
+
+  private onAuth(session: Session, argument: string): void {
+    const [method, initial] = argument.split(' ');
+    if (!this.options.auth) {
+      this.reply(session, '502 5.5.1 AUTH not available');
+      return;
+    }
+
+    if (method.toUpperCase() === 'PLAIN') {
+      if (initial) {
+        this.checkPlain(session, initial);
+      } else {
+        session.authStep = { method: 'PLAIN' };
+        this.reply(session, '334 ');
+      }
+    } else if (method.toUpperCase() === 'LOGIN') {
+      session.authStep = { method: 'LOGIN' };
+      this.reply(session, `334 ${Buffer.from('Username:').toString('base64')}`);
+    } else {
+      this.reply(session, '504 5.5.4 Unrecognized authentication type');
+    }
+  }
+
+  private onAuthLine(session: Session, line: string): void {
+    const step = session.authStep!;
+    if (step.method === 'PLAIN') {
+      session.authStep = undefined;
+      this.checkPlain(session, line);
+      return;
+    }
+
+    if (step.user === undefined) {
+      step.user = Buffer.from(line, 'base64').toString('utf8');
+      this.reply(session, `334 ${Buffer.from('Password:').toString('base64')}`);
+      return;
+    }
+
+    session.authStep = undefined;
+    this.checkCredentials(session, step.user, Buffer.from(line, 'base64').toString('utf8'));
+  }
+
+  private checkPlain(session: Session, encoded: string): void {
+    const [, user, pass] = Buffer.from(encoded, 'base64').toString('utf8').split('\0');
+    this.checkCredentials(session, user, pass);
+  }
+
+  private checkCredentials(session: Session, user: string, pass: string): void {
+    if (user === this.options.auth!.user && pass === this.options.auth!.pass) {
+      session.user = user;
+      this.reply(session, '235 2.7.0 Authentication successful');
+    } else {
+      this.reply(session, '535 5.7.8 Authentication credentials invalid');
+    }
+  }
+
+  private upgrade(session: Session): void {
+    const plain = session.socket;
+    plain.removeAllListeners('data');
+    session.buffer = '';
+
+    const secure = new tls.TLSSocket(plain, {
+      isServer: true,
+      key: this.options.tls!.key,
+      cert: this.options.tls!.cert
+    });
+    session.socket = secure;
+    session.secure = true;
+    session.from = undefined;
+    session.to = [];
+    this.bind(session, secure);
+  }
+
+  private extractAddress(argument: string): string {
+    const match = argument.match(/<([^>]*)>/);
+    return match ? match[1] : argument.replace(/^(FROM|TO):/i, '').trim();
+  }
+
+  private replyLines(session: Session, code: number, lines: string[]): void {
+    lines.forEach((line, index) => {
+      const separator = index === lines.length - 1 ? ' ' : '-';
+      session.socket.write(`${code}${separator}${line}\r\n`);
+    });
+  }
+
+  private reply(session: Session, line: string): void {
+    session.socket.write(`${line}\r\n`);
+  }
+
+  private get hostname(): string {
+    return this.options.hostname || 'fake-smtp.local';
+  }
+}
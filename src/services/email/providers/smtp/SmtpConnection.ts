@@ -0,0 +1,380 @@
+import * as net from 'node:net';
+import * as tls from 'node:tls';
+import {
+  AuthConfigError,
+  EmailProviderError,
+  PermanentContentError,
+  PermanentRecipientError,
+  TransientError
+} from '../../errors';
+
+export interface SmtpConnectionOptions {
+  host: string;
+  port: number;
+  secure?: boolean;            // Implicit TLS from the first byte (usually port 465)
+  requireTls?: boolean;        // Refuse to continue when STARTTLS is not offered
+  tls?: tls.ConnectionOptions; // Extra TLS settings such as `ca` or `rejectUnauthorized`
+  auth?: {
+    user: string;
+    pass: string;
+    method?: 'PLAIN' | 'LOGIN'; // Defaults to the first one the server offers
+  };
+  clientName?: string;         // Name sent with EHLO, defaults to 'localhost'
+  timeout?: number;            // Socket inactivity timeout per command, defaults to 30000ms
+}
+
+export interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+type SmtpStage = 'connect' | 'greeting' | 'ehlo' | 'starttls' | 'auth' | 'mail' | 'rcpt' | 'data' | 'message';
+
+/**
+ * Map an SMTP reply onto the provider error taxonomy.
+ * 4xx replies are transient; 5xx replies are permanent, with the stage
+ * deciding whether the recipient, the content or our configuration is at fault.
+ */
+export function smtpReplyToError(
+  reply: SmtpReply,
+  stage: SmtpStage,
+  provider?: string,
+  recipient?: string
+): EmailProviderError {
+  const text = `SMTP ${reply.code} during ${stage}: ${reply.lines.join(' ')}`;
+  const options = { provider, code: String(reply.code), recipients: recipient === undefined ? undefined : [recipient] };
+
+  if (reply.code >= 400 && reply.code < 500) {
+    return new TransientError(text, options);
+  }
+  if ([530, 534, 535, 538].includes(reply.code) || ['greeting', 'ehlo', 'starttls', 'auth', 'mail'].includes(stage)) {
+    return new AuthConfigError(text, options);
+  }
+  if (stage === 'rcpt') {
+    return new PermanentRecipientError(text, options);
+  }
+  return new PermanentContentError(text, options);
+}
+
+/**
+ * A single SMTP client session: greeting, EHLO, optional STARTTLS and AUTH,
+ * then any number of transactions until it is closed.
+ */
+export class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private currentLines: string[] = [];
+  private readonly replies: SmtpReply[] = [];
+  private readonly waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private failure: Error | null = null;
+  private readonly capabilities: Map<string, string> = new Map();
+  private messagesSent = 0;
+
+  private constructor(
+    private options: SmtpConnectionOptions,
+    private provider?: string
+  ) {
+    this.socket = new net.Socket();
+  }
+
+  /**
+   * Open a connection and complete the handshake, ready to send mail
+   */
+  static async open(options: SmtpConnectionOptions, provider?: string): Promise<SmtpConnection> {
+    const connection = new SmtpConnection(options, provider);
+    try {
+      await connection.connect();
+      await connection.handshake();
+      return connection;
+    } catch (error) {
+      connection.close();
+      throw error;
+    }
+  }
+
+  get isUsable(): boolean {
+    return this.failure === null && !this.socket.destroyed;
+  }
+
+  get sentCount(): number {
+    return this.messagesSent;
+  }
+
+  get isSecure(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  supports(extension: string): boolean {
+    return this.capabilities.has(extension.toUpperCase());
+  }
+
+  /**
+   * Run one mail transaction and return the server's final reply
+   */
+  async send(envelope: SmtpEnvelope, data: string): Promise<SmtpReply> {
+    const utf8 = this.supports('SMTPUTF8') && /[^\x20-\x7e]/.test([envelope.from, ...envelope.to].join(''));
+    const mailCommand = `MAIL FROM:<${envelope.from}>${utf8 ? ' SMTPUTF8' : ''}`;
+    const rcptCommands = envelope.to.map(address => `RCPT TO:<${address}>`);
+
+    let mailReply: SmtpReply;
+    let rcptReplies: SmtpReply[];
+    if (this.supports('PIPELINING')) {
+      // Send the envelope in one round trip and read the replies in order
+      this.write([mailCommand, ...rcptCommands].map(command => `${command}\r\n`).join(''));
+      mailReply = await this.readReply();
+      rcptReplies = [];
+      for (let i = 0; i < rcptCommands.length; i++) {
+        rcptReplies.push(await this.readReply());
+      }
+    } else {
+      mailReply = await this.command(mailCommand);
+      rcptReplies = [];
+      if (mailReply.code === 250) {
+        for (const command of rcptCommands) {
+          rcptReplies.push(await this.command(command));
+        }
+      }
+    }
+
+    if (mailReply.code !== 250) {
+      await this.reset();
+      throw smtpReplyToError(mailReply, 'mail', this.provider);
+    }
+
+    const rejected = rcptReplies.findIndex(reply => reply.code !== 250 && reply.code !== 251);
+    if (rejected !== -1) {
+      // All or nothing: a partially delivered message cannot be retried safely
+      await this.reset();
+      throw smtpReplyToError(rcptReplies[rejected], 'rcpt', this.provider, envelope.to[rejected]);
+    }
+
+    const dataReply = await this.command('DATA');
+    if (dataReply.code !== 354) {
+      await this.reset();
+      throw smtpReplyToError(dataReply, 'data', this.provider);
+    }
+
+    const body = data.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    this.write(`${body}${body.endsWith('\r\n') ? '' : '\r\n'}.\r\n`);
+    const finalReply = await this.readReply();
+    if (finalReply.code !== 250) {
+      throw smtpReplyToError(finalReply, 'message', this.provider);
+    }
+
+    this.messagesSent++;
+    return finalReply;
+  }
+
+  /**
+   * Abort the current transaction so the connection can be reused
+   */
+  async reset(): Promise<void> {
+    const reply = await this.command('RSET');
+    if (reply.code !== 250) {
+      throw smtpReplyToError(reply, 'mail', this.provider);
+    }
+  }
+
+  async quit(): Promise<void> {
+    if (this.isUsable) {
+      try {
+        await this.command('QUIT');
+      } catch {
+        // The server may close the socket before replying
+      }
+    }
+    this.close();
+  }
+
+  close(): void {
+    this.fail(new TransientError('SMTP connection closed', { provider: this.provider }));
+    this.socket.destroy();
+  }
+
+  private async connect(): Promise<void> {
+    const { host, port, secure } = this.options;
+
+    this.socket = await new Promise<net.Socket>((resolve, reject) => {
+      const onError = (error: Error) =>
+        reject(new TransientError(`Unable to connect to ${host}:${port}: ${error.message}`, {
+          provider: this.provider,
+          cause: error
+        }));
+
+      const socket = secure
+        ? tls.connect({ host, port, servername: host, ...this.options.tls }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.once('error', onError);
+    });
+
+    this.attach(this.socket);
+    this.expect(await this.readReply(), 220, 'greeting');
+  }
+
+  private async handshake(): Promise<void> {
+    await this.ehlo();
+
+    if (!this.isSecure && this.supports('STARTTLS')) {
+      this.expect(await this.command('STARTTLS'), 220, 'starttls');
+      await this.upgrade();
+      await this.ehlo();
+    } else if (!this.isSecure && this.options.requireTls) {
+      throw new AuthConfigError('Server does not offer STARTTLS but TLS is required', { provider: this.provider });
+    }
+
+    if (this.options.auth) {
+      await this.authenticate(this.options.auth);
+    }
+  }
+
+  private async ehlo(): Promise<void> {
+    const name = this.options.clientName || 'localhost';
+    let reply = await this.command(`EHLO ${name}`);
+
+    this.capabilities.clear();
+    if (reply.code !== 250) {
+      // Very old servers only understand HELO and offer no extensions
+      reply = await this.command(`HELO ${name}`);
+      this.expect(reply, 250, 'ehlo');
+      return;
+    }
+
+    reply.lines.slice(1).forEach(line => {
+      const [keyword, ...params] = line.trim().split(/\s+/);
+      this.capabilities.set(keyword.toUpperCase(), params.join(' '));
+    });
+  }
+
+  private async upgrade(): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.removeAllListeners('timeout');
+    // Errors on the raw socket surface through the TLS socket from here on
+    plain.on('error', () => undefined);
+    this.buffer = '';
+
+    this.socket = await new Promise<net.Socket>((resolve, reject) => {
+      const secure = tls.connect(
+        { socket: plain, servername: this.options.host, ...this.options.tls },
+        () => resolve(secure)
+      );
+      secure.once('error', error =>
+        reject(new AuthConfigError(`STARTTLS negotiation failed: ${error.message}`, {
+          provider: this.provider,
+          cause: error
+        }))
+      );
+    });
+
+    this.attach(this.socket);
+  }
+
+  private async authenticate(auth: NonNullable<SmtpConnectionOptions['auth']>): Promise<void> {
+    const offered = (this.capabilities.get('AUTH') || '').toUpperCase().split(/\s+/);
+    const method = auth.method || (['PLAIN', 'LOGIN'] as const).find(candidate => offered.includes(candidate));
+
+    if (!method || !offered.includes(method)) {
+      throw new AuthConfigError(
+        `Server does not support ${auth.method ? `AUTH ${auth.method}` : 'AUTH PLAIN or LOGIN'}`,
+        { provider: this.provider }
+      );
+    }
+
+    const encode = (value: string) => Buffer.from(value, 'utf8').toString('base64');
+
+    if (method === 'PLAIN') {
+      this.expect(await this.command(`AUTH PLAIN ${encode(`\0${auth.user}\0${auth.pass}`)}`), 235, 'auth');
+      return;
+    }
+
+    this.expect(await this.command('AUTH LOGIN'), 334, 'auth');
+    this.expect(await this.command(encode(auth.user)), 334, 'auth');
+    this.expect(await this.command(encode(auth.pass)), 235, 'auth');
+  }
+
+  private expect(reply: SmtpReply, code: number, stage: SmtpStage): SmtpReply {
+    if (reply.code !== code) {
+      throw smtpReplyToError(reply, stage, this.provider);
+    }
+    return reply;
+  }
+
+  private async command(line: string): Promise<SmtpReply> {
+    this.write(`${line}\r\n`);
+    return this.readReply();
+  }
+
+  private write(data: string): void {
+    if (this.failure) {
+      throw this.failure;
+    }
+    this.socket.write(data);
+  }
+
+  private readReply(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.options.timeout ?? 30000);
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('timeout', () => {
+      this.fail(new TransientError('SMTP command timed out', { provider: this.provider }));
+      socket.destroy();
+    });
+    socket.on('error', error =>
+      this.fail(new TransientError(`SMTP connection error: ${error.message}`, {
+        provider: this.provider,
+        cause: error
+      }))
+    );
+    socket.on('close', () =>
+      this.fail(new TransientError('SMTP connection closed by server', { provider: this.provider }))
+    );
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      this.currentLines.push(line.slice(4));
+      if (line.length < 4 || line[3] === ' ') {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.currentLines };
+        this.currentLines = [];
+
+        const waiter = this.waiters.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    this.waiters.splice(0).forEach(waiter => waiter.reject(error));
+  }
+}
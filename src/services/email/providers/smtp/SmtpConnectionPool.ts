@@ -0,0 +1,100 @@
+import { SmtpConnection, SmtpConnectionOptions } from './SmtpConnection';
+
+export interface SmtpPoolOptions {
+  maxConnections?: number;          // Defaults to 5
+  maxMessagesPerConnection?: number; // Connections are recycled after this many messages, defaults to 100
+  idleTimeout?: number;             // Idle connections are closed after this many ms, defaults to 30000
+}
+
+/**
+ * Reuses authenticated SMTP connections across messages
+ */
+export class SmtpConnectionPool {
+  private readonly idle: Array<{ connection: SmtpConnection; timer: ReturnType<typeof setTimeout> }> = [];
+  private readonly waiting: Array<(connection: SmtpConnection | null) => void> = [];
+  private open = 0;
+  private closed = false;
+
+  constructor(
+    private connectionOptions: SmtpConnectionOptions,
+    private options: SmtpPoolOptions = {},
+    private provider?: string
+  ) {}
+
+  /**
+   * Borrow a ready connection, opening a new one when the pool has room
+   */
+  async acquire(): Promise<SmtpConnection> {
+    while (this.idle.length > 0) {
+      const { connection, timer } = this.idle.pop()!;
+      clearTimeout(timer);
+      if (connection.isUsable) {
+        return connection;
+      }
+      this.open--;
+    }
+
+    if (this.open < (this.options.maxConnections ?? 5)) {
+      this.open++;
+      try {
+        return await SmtpConnection.open(this.connectionOptions, this.provider);
+      } catch (error) {
+        this.open--;
+        this.wakeWaiter();
+        throw error;
+      }
+    }
+
+    // Wait for a connection to be released, or for a slot to free up
+    const connection = await new Promise<SmtpConnection | null>(resolve => this.waiting.push(resolve));
+    return connection || this.acquire();
+  }
+
+  /**
+   * Return a connection; broken or worn-out connections are closed instead of reused
+   */
+  release(connection: SmtpConnection): void {
+    const maxMessages = this.options.maxMessagesPerConnection ?? 100;
+    if (this.closed || !connection.isUsable || connection.sentCount >= maxMessages) {
+      this.open--;
+      void connection.quit();
+      this.wakeWaiter();
+      return;
+    }
+
+    const waiter = this.waiting.shift();
+    if (waiter) {
+      waiter(connection);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      const index = this.idle.findIndex(entry => entry.connection === connection);
+      if (index !== -1) {
+        this.idle.splice(index, 1);
+        this.open--;
+        void connection.quit();
+      }
+    }, this.options.idleTimeout ?? 30000);
+    this.idle.push({ connection, timer });
+  }
+
+  get size(): number {
+    return this.open;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    const idle = this.idle.splice(0);
+    this.open -= idle.length;
+    idle.forEach(({ timer }) => clearTimeout(timer));
+    await Promise.all(idle.map(({ connection }) => connection.quit()));
+  }
+
+  private wakeWaiter(): void {
+    const waiter = this.waiting.shift();
+    if (waiter) {
+      waiter(null);
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import * as fs from 'node:fs';
+import { DeadLetter, EmailStatus, IdempotencyRecord, QueuedEmail, ScheduledEmail, SuppressionEntry } from '../types';
+import { InMemoryStorage } from './InMemoryStorage';
+
+type StorageRecord =
+  | { type: 'status'; status: EmailStatus }
+  | { type: 'sent'; messageId: string }
+  | { type: 'idempotency'; record: IdempotencyRecord }
+  | { type: 'remove-idempotency'; key: string }
+  | { type: 'enqueue'; entry: QueuedEmail }
+  | { type: 'dequeue'; messageId: string }
+  | { type: 'schedule'; entry: ScheduledEmail }
+  | { type: 'unschedule'; messageId: string }
+  | { type: 'dead-letter'; entry: DeadLetter }
+  | { type: 'remove-dead-letter'; messageId: string }
+  | { type: 'suppress'; entry: SuppressionEntry }
+  | { type: 'unsuppress'; address: string }
+  | { type: 'clear' };
+
+export interface FileStorageOptions {
+  path: string;
+  compactOnLoad?: boolean; // Rewrite the log as a snapshot after loading (default true)
+  compactAfter?: number;   // Rewrite it while running once this many records were appended and they outnumber the live ones (default 1000)
+}
+
+/**
+ * File-backed storage using an append-only JSON lines log.
+ *
+ * State is kept in memory and every change is appended to the log, which is
+ * replayed when the storage is created so queued emails and idempotency
+ * records survive a process restart. The log is compacted once most of it
+ * is superseded records.
+ */
+export class FileStorage extends InMemoryStorage {
+  private readonly path: string;
+  private readonly compactAfter: number;
+  private appendedSinceCompaction = 0;
+
+  constructor(options: FileStorageOptions) {
+    super();
+    this.path = options.path;
+    this.compactAfter = options.compactAfter ?? 1000;
+    this.load();
+
+    if (options.compactOnLoad !== false) {
+      this.compact();
+    }
+  }
+
+  saveStatus(status: EmailStatus): void {
+    super.saveStatus(status);
+    this.append({ type: 'status', status });
+  }
+
+  markSent(messageId: string): void {
+    super.markSent(messageId);
+    this.append({ type: 'sent', messageId });
+  }
+
+  saveIdempotencyRecord(record: IdempotencyRecord): void {
+    super.saveIdempotencyRecord(record);
+    this.append({ type: 'idempotency', record });
+  }
+
+  removeIdempotencyRecord(key: string): void {
+    super.removeIdempotencyRecord(key);
+    this.append({ type: 'remove-idempotency', key });
+  }
+
+  saveQueuedEmail(entry: QueuedEmail): void {
+    super.saveQueuedEmail(entry);
+    this.append({ type: 'enqueue', entry });
+  }
+
+  removeQueuedEmail(messageId: string): void {
+    super.removeQueuedEmail(messageId);
+    this.append({ type: 'dequeue', messageId });
+  }
+
+  saveScheduledEmail(entry: ScheduledEmail): void {
+    super.saveScheduledEmail(entry);
+    this.append({ type: 'schedule', entry });
+  }
+
+  removeScheduledEmail(messageId: string): void {
+    super.removeScheduledEmail(messageId);
+    this.append({ type: 'unschedule', messageId });
+  }
+
+  saveDeadLetter(entry: DeadLetter): void {
+    super.saveDeadLetter(entry);
+    this.append({ type: 'dead-letter', entry });
+  }
+
+  removeDeadLetter(messageId: string): void {
+    super.removeDeadLetter(messageId);
+    this.append({ type: 'remove-dead-letter', messageId });
+  }
+
+  saveSuppression(entry: SuppressionEntry): void {
+    super.saveSuppression(entry);
+    this.append({ type: 'suppress', entry });
+  }
+
+  removeSuppression(address: string): void {
+    super.removeSuppression(address);
+    this.append({ type: 'unsuppress', address });
+  }
+
+  clear(): void {
+    super.clear();
+    this.append({ type: 'clear' });
+  }
+
+  /**
+   * Rewrite the log so it only contains the current state
+   */
+  compact(): void {
+    const records: StorageRecord[] = [
+      ...this.getAllStatuses().map(status => ({ type: 'status', status }) as const),
+      ...Array.from(this.sentEmails).map(messageId => ({ type: 'sent', messageId }) as const),
+      ...Array.from(this.idempotencyRecords.values()).map(record => ({ type: 'idempotency', record }) as const),
+      ...this.getQueuedEmails().map(entry => ({ type: 'enqueue', entry }) as const),
+      ...this.getScheduledEmails().map(entry => ({ type: 'schedule', entry }) as const),
+      ...this.getDeadLetters().map(entry => ({ type: 'dead-letter', entry }) as const),
+      ...this.getSuppressions().map(entry => ({ type: 'suppress', entry }) as const)
+    ];
+
+    const tempPath = `${this.path}.tmp`;
+    fs.writeFileSync(tempPath, records.map(record => `${JSON.stringify(record)}\n`).join(''));
+    fs.renameSync(tempPath, this.path);
+    this.appendedSinceCompaction = 0;
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.path)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(this.path, 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      let record: StorageRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A torn write from a crash can leave the last line incomplete
+        continue;
+      }
+      this.apply(record);
+    }
+  }
+
+  private apply(record: StorageRecord): void {
+    switch (record.type) {
+      case 'status':
+        super.saveStatus(record.status);
+        break;
+      case 'sent':
+        super.markSent(record.messageId);
+        break;
+      case 'idempotency':
+        super.saveIdempotencyRecord(record.record);
+        break;
+      case 'remove-idempotency':
+        super.removeIdempotencyRecord(record.key);
+        break;
+      case 'enqueue':
+        super.saveQueuedEmail(record.entry);
+        break;
+      case 'dequeue':
+        super.removeQueuedEmail(record.messageId);
+        break;
+      case 'schedule':
+        super.saveScheduledEmail(record.entry);
+        break;
+      case 'unschedule':
+        super.removeScheduledEmail(record.messageId);
+        break;
+      case 'dead-letter':
+        super.saveDeadLetter(record.entry);
+        break;
+      case 'remove-dead-letter':
+        super.removeDeadLetter(record.messageId);
+        break;
+      case 'suppress':
+        super.saveSuppression(record.entry);
+        break;
+      case 'unsuppress':
+        super.removeSuppression(record.address);
+        break;
+      case 'clear':
+        super.clear();
+        break;
+    }
+  }
+
+  private append(record: StorageRecord): void {
+    fs.appendFileSync(this.path, `${JSON.stringify(record)}\n`);
+    this.appendedSinceCompaction++;
+    if (this.appendedSinceCompaction >= this.compactAfter && this.appendedSinceCompaction >= this.countLiveRecords()) {
+      this.compact();
+    }
+  }
+
+  private countLiveRecords(): number {
+    return this.statuses.size + this.sentEmails.size + this.idempotencyRecords.size + this.queuedEmails.size +
+      this.scheduledEmails.size + this.deadLetters.size + this.suppressions.size;
+  }
+}
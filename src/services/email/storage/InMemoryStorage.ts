@@ -0,0 +1,128 @@
+import {
+  DeadLetter,
+  EmailStatus,
+  EmailStorage,
+  IdempotencyRecord,
+  QueuedEmail,
+  ScheduledEmail,
+  SuppressionEntry
+} from '../types';
+
+/**
+ * Default storage that keeps all state in memory; nothing survives a restart
+ */
+export class InMemoryStorage implements EmailStorage {
+  protected readonly statuses: Map<string, EmailStatus> = new Map();
+  protected readonly sentEmails: Set<string> = new Set();
+  protected readonly idempotencyRecords: Map<string, IdempotencyRecord> = new Map();
+  protected readonly queuedEmails: Map<string, QueuedEmail> = new Map();
+  protected readonly scheduledEmails: Map<string, ScheduledEmail> = new Map();
+  protected readonly deadLetters: Map<string, DeadLetter> = new Map();
+  protected readonly suppressions: Map<string, SuppressionEntry> = new Map();
+
+  getStatus(messageId: string): EmailStatus | undefined {
+    return this.statuses.get(messageId);
+  }
+
+  getAllStatuses(): EmailStatus[] {
+    return Array.from(this.statuses.values());
+  }
+
+  saveStatus(status: EmailStatus): void {
+    this.statuses.set(status.messageId, status);
+  }
+
+  isSent(messageId: string): boolean {
+    return this.sentEmails.has(messageId);
+  }
+
+  markSent(messageId: string): void {
+    this.sentEmails.add(messageId);
+  }
+
+  getIdempotencyRecord(key: string): IdempotencyRecord | undefined {
+    return this.idempotencyRecords.get(key);
+  }
+
+  saveIdempotencyRecord(record: IdempotencyRecord): void {
+    this.idempotencyRecords.set(record.key, record);
+  }
+
+  removeIdempotencyRecord(key: string): void {
+    this.idempotencyRecords.delete(key);
+  }
+
+  removeExpiredIdempotencyRecords(now: number): number {
+    const expired = Array.from(this.idempotencyRecords.values())
+      .filter(record => record.expiresAt !== undefined && record.expiresAt <= now);
+    // Through removeIdempotencyRecord, so subclasses persist each removal
+    expired.forEach(record => this.removeIdempotencyRecord(record.key));
+    return expired.length;
+  }
+
+  getQueuedEmails(): QueuedEmail[] {
+    return Array.from(this.queuedEmails.values());
+  }
+
+  saveQueuedEmail(entry: QueuedEmail): void {
+    this.queuedEmails.set(entry.message.id, entry);
+  }
+
+  removeQueuedEmail(messageId: string): void {
+    this.queuedEmails.delete(messageId);
+  }
+
+  getScheduledEmails(): ScheduledEmail[] {
+    return Array.from(this.scheduledEmails.values());
+  }
+
+  saveScheduledEmail(entry: ScheduledEmail): void {
+    this.scheduledEmails.set(entry.message.id, entry);
+  }
+
+  removeScheduledEmail(messageId: string): void {
+    this.scheduledEmails.delete(messageId);
+  }
+
+  getSuppressions(): SuppressionEntry[] {
+    return Array.from(this.suppressions.values());
+  }
+
+  getSuppression(address: string): SuppressionEntry | undefined {
+    return this.suppressions.get(address);
+  }
+
+  saveSuppression(entry: SuppressionEntry): void {
+    this.suppressions.set(entry.address, entry);
+  }
+
+  removeSuppression(address: string): void {
+    this.suppressions.delete(address);
+  }
+
+  getDeadLetters(): DeadLetter[] {
+    return Array.from(this.deadLetters.values());
+  }
+
+  getDeadLetter(messageId: string): DeadLetter | undefined {
+    return this.deadLetters.get(messageId);
+  }
+
+  saveDeadLetter(entry: DeadLetter): void {
+    this.deadLetters.set(entry.message.id, entry);
+  }
+
+  removeDeadLetter(messageId: string): void {
+    this.deadLetters.delete(messageId);
+  }
+
+  clear(): void {
+    this.statuses.clear();
+    this.sentEmails.clear();
+    this.idempotencyRecords.clear();
+    this.queuedEmails.clear();
+    this.scheduledEmails.clear();
+    this.deadLetters.clear();
+    this.suppressions.clear();
+  }
+}
@@ -0,0 +1,173 @@
+import { TemplateError } from '../errors';
+
+/**
+ * Parsed template. Supported tags:
+ * - `{{ name }}` / `{{ user.name }}`: a variable, HTML-escaped when rendering HTML
+ * - `{{{ name }}}`: a variable inserted as is
+ * - `{{> partial }}`: another template rendered with the same variables
+ * - `{{#if name}} … {{else}} … {{/if}}`: truthy check; empty arrays are falsy
+ * - `{{#each items}} … {{/each}}`: repeat for each item; `{{this}}` and `{{@index}}` refer to the item
+ */
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; raw: boolean }
+  | { type: 'partial'; name: string }
+  | { type: 'if'; path: string; then: TemplateNode[]; else: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[] };
+
+export interface RenderOptions {
+  escape: boolean; // HTML-escape variables; off for subjects and text parts
+  partial?: (name: string) => TemplateNode[] | undefined;
+}
+
+const TAG_PATTERN = /\{\{\{\s*([^}]+?)\s*\}\}\}|\{\{\s*([^}]+?)\s*\}\}/g;
+const MAX_PARTIAL_DEPTH = 10;
+
+/**
+ * Parse template source, throwing a TemplateError for unbalanced blocks
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Each open block with the list its children currently go to
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' | 'each' }>; target: TemplateNode[] }> = [];
+  const target = () => (stack.length > 0 ? stack[stack.length - 1].target : root);
+
+  let index = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    if (match.index! > index) {
+      target().push({ type: 'text', value: source.slice(index, match.index) });
+    }
+    index = match.index! + match[0].length;
+
+    if (match[1] !== undefined) {
+      target().push({ type: 'variable', path: match[1], raw: true });
+      continue;
+    }
+
+    const tag = match[2];
+    if (tag.startsWith('>')) {
+      target().push({ type: 'partial', name: tag.slice(1).trim() });
+    } else if (tag.startsWith('#if ') || tag.startsWith('#each ')) {
+      const [keyword, path] = [tag.slice(1, tag.indexOf(' ')), tag.slice(tag.indexOf(' ') + 1).trim()];
+      const node: Extract<TemplateNode, { type: 'if' | 'each' }> = keyword === 'if'
+        ? { type: 'if', path, then: [], else: [] }
+        : { type: 'each', path, body: [] };
+      target().push(node);
+      stack.push({ node, target: node.type === 'if' ? node.then : node.body });
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.node.type !== 'if') {
+        throw new TemplateError('{{else}} outside of an {{#if}} block', 'TEMPLATE_SYNTAX');
+      }
+      open.target = open.node.else;
+    } else if (tag === '/if' || tag === '/each') {
+      const open = stack.pop();
+      if (!open || open.node.type !== tag.slice(1)) {
+        throw new TemplateError(`Unexpected {{${tag}}}`, 'TEMPLATE_SYNTAX');
+      }
+    } else {
+      target().push({ type: 'variable', path: tag, raw: false });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new TemplateError(`Unclosed {{#${stack[stack.length - 1].node.type}}} block`, 'TEMPLATE_SYNTAX');
+  }
+  if (index < source.length) {
+    root.push({ type: 'text', value: source.slice(index) });
+  }
+  return root;
+}
+
+/**
+ * Render parsed nodes. Missing variables render as an empty string.
+ */
+export function renderNodes(nodes: TemplateNode[], vars: Record<string, unknown>, options: RenderOptions): string {
+  return render(nodes, [vars], options, 0);
+}
+
+function render(nodes: TemplateNode[], scopes: unknown[], options: RenderOptions, depth: number): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'variable': {
+        const value = lookup(node.path, scopes);
+        const text = value === undefined || value === null ? '' : String(value);
+        return options.escape && !node.raw ? escapeHtml(text) : text;
+      }
+      case 'partial': {
+        const partial = options.partial?.(node.name);
+        if (!partial) {
+          throw new TemplateError(`Unknown partial "${node.name}"`, 'TEMPLATE_NOT_FOUND');
+        }
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw new TemplateError(`Partials nested more than ${MAX_PARTIAL_DEPTH} levels deep`, 'TEMPLATE_SYNTAX');
+        }
+        return render(partial, scopes, options, depth + 1);
+      }
+      case 'if':
+        return render(isTruthy(lookup(node.path, scopes)) ? node.then : node.else, scopes, options, depth);
+      case 'each': {
+        const items = lookup(node.path, scopes);
+        if (!Array.isArray(items)) return '';
+        return items
+          .map((item, index) => render(node.body, [{ this: item, '@index': index }, item, ...scopes], options, depth))
+          .join('');
+      }
+    }
+  }).join('');
+}
+
+/**
+ * Resolve a dotted path against the innermost scope that has its first segment
+ */
+function lookup(path: string, scopes: unknown[]): unknown {
+  const [head, ...rest] = path.split('.');
+  const scope = scopes.find(candidate =>
+    candidate !== null && typeof candidate === 'object' && head in (candidate as object)
+  );
+  let value = scope === undefined ? undefined : (scope as Record<string, unknown>)[head];
+
+  for (const key of rest) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', nbsp: ' ', '#39': "'" };
+
+/**
+ * Plain-text version of an HTML body: block elements become line breaks and
+ * links keep their URL, e.g. `<a href="https://x.io">Open</a>` becomes `Open (https://x.io)`
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(head|style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, text: string) =>
+      text.trim() === href ? href : `${text} (${href})`
+    )
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|h[1-6]|tr|table|ul|ol)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|nbsp|#39);/g, (_, entity: string) => ENTITIES[entity])
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
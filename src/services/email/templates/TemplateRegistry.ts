@@ -0,0 +1,167 @@
+import {
+  EmailTemplate,
+  RenderedTemplate,
+  TemplateDefinition,
+  TemplateLayout,
+  TemplateRenderer,
+  TemplateVariables,
+  TemplateVariableType
+} from '../types';
+import { TemplateError } from '../errors';
+import { TemplateNode, htmlToText, parseTemplate, renderNodes } from './TemplateEngine';
+
+interface CompiledTemplate {
+  template: EmailTemplate;
+  subject: TemplateNode[];
+  html?: TemplateNode[];
+  text?: TemplateNode[];
+}
+
+interface CompiledLayout {
+  html?: TemplateNode[];
+  text?: TemplateNode[];
+}
+
+/**
+ * Versioned email templates with shared partials and layouts.
+ *
+ * Templates are parsed when registered, so syntax errors surface straight
+ * away. Rendering uses the latest version unless one is pinned.
+ */
+export class TemplateRegistry implements TemplateRenderer {
+  private readonly templates: Map<string, Map<number, CompiledTemplate>> = new Map();
+  private readonly partials: Map<string, TemplateNode[]> = new Map();
+  private readonly layouts: Map<string, CompiledLayout> = new Map();
+
+  register<V extends TemplateVariables>(definition: TemplateDefinition<V>): EmailTemplate<V> {
+    if (definition.html === undefined && definition.text === undefined) {
+      throw new TemplateError(`Template "${definition.id}" needs html or text content`, 'TEMPLATE_SYNTAX');
+    }
+
+    const versions = this.templates.get(definition.id) || new Map<number, CompiledTemplate>();
+    const version = definition.version ?? Math.max(0, ...versions.keys()) + 1;
+    if (versions.has(version)) {
+      throw new TemplateError(`Template "${definition.id}" version ${version} is already registered`, 'TEMPLATE_EXISTS');
+    }
+
+    const template: EmailTemplate<V> = { ...definition, version, createdAt: Date.now() };
+    versions.set(version, {
+      template: template as EmailTemplate,
+      subject: parseTemplate(definition.subject),
+      html: definition.html === undefined ? undefined : parseTemplate(definition.html),
+      text: definition.text === undefined ? undefined : parseTemplate(definition.text)
+    });
+    this.templates.set(definition.id, versions);
+    return template;
+  }
+
+  registerPartial(name: string, source: string): void {
+    this.partials.set(name, parseTemplate(source));
+  }
+
+  registerLayout(name: string, layout: TemplateLayout): void {
+    this.layouts.set(name, {
+      html: layout.html === undefined ? undefined : parseTemplate(layout.html),
+      text: layout.text === undefined ? undefined : parseTemplate(layout.text)
+    });
+  }
+
+  /**
+   * Get a template version, or the latest one
+   */
+  get(id: string, version?: number): EmailTemplate | undefined {
+    return this.find(id, version)?.template;
+  }
+
+  versions(id: string): number[] {
+    return Array.from(this.templates.get(id)?.keys() || []).sort((a, b) => a - b);
+  }
+
+  /**
+   * Latest version of every template
+   */
+  list(): EmailTemplate[] {
+    return Array.from(this.templates.keys()).map(id => this.get(id)!);
+  }
+
+  /**
+   * Render a template. Throws a TemplateError when the template, a partial or
+   * the layout is missing, or a declared variable is missing or of the wrong type.
+   */
+  render<V extends TemplateVariables>(
+    template: string | EmailTemplate<V>,
+    vars: V,
+    version?: number
+  ): RenderedTemplate {
+    const id = typeof template === 'string' ? template : template.id;
+    const compiled = this.find(id, typeof template === 'string' ? version : version ?? template.version);
+    if (!compiled) {
+      throw new TemplateError(
+        `Unknown template "${id}"${version !== undefined ? ` version ${version}` : ''}`,
+        'TEMPLATE_NOT_FOUND'
+      );
+    }
+    this.checkVariables(compiled.template, vars);
+
+    const partial = (name: string) => this.partials.get(name);
+    const html = compiled.html && renderNodes(compiled.html, vars, { escape: true, partial });
+    let text = compiled.text && renderNodes(compiled.text, vars, { escape: false, partial });
+
+    let layout: CompiledLayout | undefined;
+    if (compiled.template.layout !== undefined) {
+      layout = this.layouts.get(compiled.template.layout);
+      if (!layout) {
+        throw new TemplateError(`Unknown layout "${compiled.template.layout}"`, 'TEMPLATE_NOT_FOUND');
+      }
+    }
+
+    // Rendered content is inserted into the layout as is, so it is never escaped twice
+    const wrappedHtml = html !== undefined && layout?.html
+      ? renderNodes(layout.html, { ...vars, content: html }, { escape: true, partial })
+      : html;
+    if (text !== undefined && layout?.text) {
+      text = renderNodes(layout.text, { ...vars, content: text }, { escape: false, partial });
+    }
+
+    return {
+      templateId: id,
+      version: compiled.template.version,
+      subject: renderNodes(compiled.subject, vars, { escape: false, partial }).trim(),
+      html: wrappedHtml,
+      text: text ?? htmlToText(wrappedHtml!)
+    };
+  }
+
+  clear(): void {
+    this.templates.clear();
+    this.partials.clear();
+    this.layouts.clear();
+  }
+
+  private find(id: string, version?: number): CompiledTemplate | undefined {
+    const versions = this.templates.get(id);
+    if (!versions) return undefined;
+    return versions.get(version ?? Math.max(...versions.keys()));
+  }
+
+  private checkVariables(template: EmailTemplate, vars: TemplateVariables): void {
+    const problems = Object.entries(template.variables || {}).flatMap(([name, type]) => {
+      const value = vars[name];
+      if (value === undefined || value === null) return [`${name} is missing`];
+      return typeOf(value) === type ? [] : [`${name} should be ${type === 'array' || type === 'object' ? 'an' : 'a'} ${type}`];
+    });
+
+    if (problems.length > 0) {
+      throw new TemplateError(
+        `Invalid variables for template "${template.id}": ${problems.join('; ')}`,
+        'TEMPLATE_VARIABLES_INVALID'
+      );
+    }
+  }
+}
+
+function typeOf(value: unknown): TemplateVariableType | undefined {
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' || type === 'object' ? type : undefined;
+}
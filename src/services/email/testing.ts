@@ -0,0 +1,3 @@
+// In-process fakes for tests; never needed in production code
+export * from './providers/smtp/FakeSmtpServer';
+export * from './providers/http/FakeHttpApiServer';
\ No newline at end of file
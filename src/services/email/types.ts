@@ -2,68 +2,624 @@
  * Core types and interfaces for the resilient email service
  */
 
+export type EmailPriority = 'low' | 'normal' | 'high';
+
+export interface EmailAddress {
+  address: string;
+  name?: string; // Display name, may contain non-ASCII text
+}
+
+/**
+ * A plain address, a "Name <address>" string, or a structured address
+ */
+export type Recipient = string | EmailAddress;
+
+export interface EmailAttachment {
+  filename: string;
+  content: string;              // Raw text, or base64 data when encoding is 'base64'
+  encoding?: 'utf8' | 'base64'; // Defaults to 'utf8'
+  contentType?: string;         // Defaults to application/octet-stream
+  inline?: boolean;             // Inline attachments are referenced from the HTML part by contentId
+  contentId?: string;
+}
+
 export interface EmailMessage {
   id: string;
-  to: string;
+  idempotencyKey?: string;          // Deduplicates sends instead of `id`, e.g. an order number
+  to: Recipient | Recipient[];
+  cc?: Recipient[];
+  bcc?: Recipient[];
+  from?: Recipient;
+  replyTo?: Recipient | Recipient[];
   subject: string;
-  body: string;
-  priority?: 'low' | 'normal' | 'high';
+  body: string;                     // Plain text part, also the alternative to `html`
+  html?: string;
+  headers?: Record<string, string>; // Custom headers; address and MIME headers are reserved
+  attachments?: EmailAttachment[];
+  priority?: EmailPriority;
+  retry?: Partial<RetryOptions>; // Per-message override of the service retry options
+  tags?: string[];               // Free-form labels, e.g. 'transactional'; used for routing
+  sendAt?: number;               // Epoch ms; the message is held by the scheduler until then
+  delayMs?: number;              // Alternative to `sendAt`, relative to when sendEmail is called
+  template?: { id: string; version: number }; // Set by sendTemplate
+  metadata?: Record<string, string>; // Caller data kept with the message, e.g. a W3C `traceparent` or a `correlationId`
+  timestamp: number;
+}
+
+export interface QueuedEmail {
+  message: EmailMessage;
+  enqueuedAt: number;
+}
+
+/**
+ * Remembers a sent message so repeats under the same key are not sent again
+ */
+export interface IdempotencyRecord {
+  key: string;
+  messageId: string;
+  fingerprint: string; // Hash of the payload, to detect a different message reusing the key
+  provider: string;
+  providerMessageId?: string;
+  sentAt: number;
+  expiresAt?: number;
+}
+
+export interface ScheduledEmail {
+  message: EmailMessage;
+  sendAt: number;
+  scheduledAt: number;
+}
+
+export type ErrorCategory =
+  | 'transient'            // Network errors, timeouts, 5xx responses
+  | 'rate-limited'         // Provider asked us to slow down, possibly with a retry-after hint
+  | 'permanent-recipient'  // Recipient address rejected; no provider will accept it
+  | 'permanent-content'    // Message content rejected; no provider will accept it
+  | 'auth-config'          // Provider credentials or configuration are wrong
+  | 'cancelled';           // The message was cancelled with cancelEmail
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+  category: ErrorCategory;
+}
+
+export interface DeliveryFailure {
+  provider: string;
+  attempt: number;
+  error: string;
+  category: ErrorCategory;
   timestamp: number;
 }
 
+export interface DeadLetter {
+  message: EmailMessage;
+  failures: DeliveryFailure[];
+  error: string;
+  deadLetteredAt: number;
+  replayCount: number;
+}
+
 export interface EmailProvider {
   name: string;
-  sendEmail(message: EmailMessage): Promise<EmailResult>;
+  rateLimit?: RateLimitOptions; // The provider's own sending rate; perDomain is ignored here
+  dailyQuota?: number;          // Messages per UTC day
+  /**
+   * The signal is aborted when the attempt times out or the message is cancelled
+   */
+  sendEmail(message: EmailMessage, signal?: AbortSignal): Promise<EmailResult>;
+}
+
+export interface ProviderQuotaStatus {
+  rateLimitTokens?: number; // Absent when the provider declares no rate limit
+  dailyQuota?: number;
+  dailyRemaining?: number;
+  resetsAt?: number;        // Start of the next UTC day, when a daily quota is set
 }
 
 export interface EmailResult {
   success: boolean;
   messageId?: string;
   error?: string;
+  errorCategory?: ErrorCategory;
+  errorCode?: string;            // Provider-specific code, e.g. an SMTP reply or HTTP status
   provider: string;
+  rateLimit?: ProviderRateLimit; // Provider quota reported with the response, when available
   timestamp: number;
 }
 
+export interface ProviderRateLimit {
+  limit?: number;
+  remaining?: number;
+  resetAt?: number; // Epoch milliseconds
+}
+
+/**
+ * Request produced by an HTTP API provider's mapper; the body is sent as JSON
+ */
+export interface HttpRequestSpec {
+  url?: string;    // Overrides the provider endpoint
+  method?: string; // Defaults to POST
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+export type HttpRequestMapper = (message: EmailMessage, defaults: { from?: Recipient }) => HttpRequestSpec;
+
+/**
+ * Adds authentication headers to an outgoing request
+ */
+export type HttpAuthStrategy = (headers: Record<string, string>) => Record<string, string>;
+
+export interface HttpApiResponse {
+  status: number;
+  headers: Headers;
+  body: unknown; // Parsed JSON, or the raw text when the body is not JSON
+}
+
+export interface HttpResponseDetails {
+  messageId?: string;
+  errorCode?: string;
+  errorMessage?: string;
+  errorCategory?: ErrorCategory; // Overrides the category derived from the status code
+}
+
+export type HttpResponseParser = (response: HttpApiResponse) => HttpResponseDetails;
+
 export interface EmailStatus {
   messageId: string;
   recipient: string;
   subject: string;
-  status: 'pending' | 'sending' | 'sent' | 'failed' | 'queued';
+  status: 'pending' | 'scheduled' | 'sending' | 'sent' | 'failed' | 'queued' | 'cancelled' | 'suppressed';
   attempts: number;
+  scheduledFor?: number;
   lastAttempt?: number;
   provider?: string;
   error?: string;
+  templateId?: string;
+  templateVersion?: number;
+  correlationId?: string; // Attached to every log entry about the message
+  history?: DeliveryAttempt[]; // Every provider attempt, oldest first, kept across replays
   created: number;
 }
 
+/**
+ * One provider call made while delivering a message
+ */
+export interface DeliveryAttempt {
+  provider: string;
+  attempt: number;             // Attempt number with this provider during one delivery
+  startedAt: number;
+  endedAt: number;
+  latencyMs: number;
+  success: boolean;
+  errorCategory?: ErrorCategory;
+  errorCode?: string;
+  error?: string;
+  circuitState: CircuitState;  // The provider's breaker state once the attempt finished
+  backoffMs?: number;          // Time waited before the next attempt; absent when none followed
+}
+
+export type RetryStrategy = 'exponential' | 'full-jitter' | 'decorrelated-jitter' | 'fixed' | 'linear';
+
 export interface RetryOptions {
   maxAttempts: number;
   baseDelay: number;
   maxDelay: number;
   backoffFactor: number;
+  strategy?: RetryStrategy; // Defaults to 'exponential'
+  maxRetryTime?: number;    // Cap on total time spent retrying a message, across providers
+  attemptTimeout?: number;  // Provider calls are aborted after this many ms and retried as transient failures
+  deadline?: number;        // Hard limit in ms for delivering a message; the running attempt is aborted and no more are made
+}
+
+export interface RetryContext {
+  attempt: number;        // Attempts made so far with the current provider
+  elapsedMs: number;      // Time since the message's first attempt
+  previousDelay: number;  // Delay before the current attempt, 0 for the first one
+  retryAfterMs?: number;  // Hint from a rate-limited provider
+  error: unknown;
+}
+
+export interface RetryPolicy {
+  readonly maxAttempts: number;
+  readonly maxRetryTime?: number;
+  /**
+   * Delay before the next attempt, or null to stop retrying this provider
+   */
+  nextDelay(context: RetryContext): number | null;
 }
 
-export interface RateLimitOptions {
+export interface TokenBucketLimit {
   maxRequests: number;
   windowMs: number;
 }
 
+export interface RateLimitOptions extends TokenBucketLimit {
+  perDomain?: DomainRateLimitOptions; // Throttling per recipient domain, on top of the global limit
+}
+
+export interface DomainRateLimitOptions {
+  default?: TokenBucketLimit;                // Applies to every domain without its own limit; unlimited when omitted
+  domains?: Record<string, TokenBucketLimit>; // Keyed by lower-case domain, e.g. 'gmail.com'
+}
+
+/**
+ * Rolling-window view of how a provider has been doing
+ */
+export interface ProviderStats {
+  samples: number;
+  successRate: number;             // 1 when there are no samples yet
+  averageLatencyMs?: number;       // Undefined when there are no samples yet
+}
+
+export interface ProviderStatsOptions {
+  windowMs: number;   // Samples older than this are ignored
+  maxSamples: number; // Per provider
+}
+
+export interface RoutingContext {
+  message: EmailMessage;
+  getStats(provider: string): ProviderStats;
+}
+
+/**
+ * Decides which providers to try for a message, and in what order.
+ * The first provider is the primary; the rest are fallbacks.
+ */
+export interface RoutingStrategy {
+  name: string;
+  order(providers: EmailProvider[], context: RoutingContext): EmailProvider[];
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
 export interface CircuitBreakerOptions {
-  failureThreshold: number;
-  resetTimeout: number;
-  monitoringWindow: number;
+  failureThreshold: number;         // Failures within the window that open the circuit in 'count' mode
+  resetTimeout: number;             // Time open before probing, in ms
+  monitoringWindow: number;         // Window over which failures (and calls, in 'rate' mode) are counted
+  mode?: 'count' | 'rate';          // Defaults to 'count'
+  failureRateThreshold?: number;    // Percentage of failed calls that opens the circuit in 'rate' mode, default 50
+  minimumRequests?: number;         // Calls needed in the window before the rate is judged, default 10
+  halfOpenProbes?: number;          // Successful probes needed to close again, default 2
+  halfOpenMaxConcurrent?: number;   // Probes allowed in flight while half-open, default 1
+  slowCallThreshold?: number;       // Calls slower than this many ms count as failures
+  resetTimeoutMultiplier?: number;  // resetTimeout grows by this factor on each consecutive trip, default 1
+  maxResetTimeout?: number;         // Cap for the grown resetTimeout
+}
+
+/**
+ * Persistence backend for service state that must survive a restart
+ */
+export interface EmailStorage {
+  getStatus(messageId: string): EmailStatus | undefined;
+  getAllStatuses(): EmailStatus[];
+  saveStatus(status: EmailStatus): void;
+  isSent(messageId: string): boolean;
+  markSent(messageId: string): void;
+  getQueuedEmails(): QueuedEmail[];
+  saveQueuedEmail(entry: QueuedEmail): void;
+  removeQueuedEmail(messageId: string): void;
+  getIdempotencyRecord(key: string): IdempotencyRecord | undefined;
+  saveIdempotencyRecord(record: IdempotencyRecord): void;
+  removeIdempotencyRecord(key: string): void;
+  removeExpiredIdempotencyRecords(now: number): number; // Returns how many were removed
+  getScheduledEmails(): ScheduledEmail[];
+  saveScheduledEmail(entry: ScheduledEmail): void;
+  removeScheduledEmail(messageId: string): void;
+  getSuppressions(): SuppressionEntry[];
+  getSuppression(address: string): SuppressionEntry | undefined;
+  saveSuppression(entry: SuppressionEntry): void;
+  removeSuppression(address: string): void;
+  getDeadLetters(): DeadLetter[];
+  getDeadLetter(messageId: string): DeadLetter | undefined;
+  saveDeadLetter(entry: DeadLetter): void;
+  removeDeadLetter(messageId: string): void;
+  clear(): void;
+}
+
+export type SuppressionReason = 'hard-bounce' | 'complaint' | 'unsubscribe' | 'manual';
+
+/**
+ * An address that no email is sent to
+ */
+export interface SuppressionEntry {
+  address: string;    // Lower-cased
+  reason: SuppressionReason;
+  detail?: string;    // e.g. the provider's rejection message
+  source?: string;    // Provider that rejected the address, when added automatically
+  createdAt: number;
+  expiresAt?: number; // Suppressed indefinitely when omitted
+}
+
+export interface SuppressionOptions {
+  autoSuppress?: boolean; // Suppress recipients rejected with a permanent recipient error, defaults to true
+  ttlMs?: Partial<Record<SuppressionReason, number>>; // Default expiry per reason; no expiry when omitted
+}
+
+/**
+ * What besides malformed addresses is rejected. By default disposable domains,
+ * role accounts and likely typos are only flagged by checkAddress.
+ */
+export interface AddressPolicy {
+  rejectDisposable?: boolean;
+  rejectRoleAccounts?: boolean;
+  rejectTypos?: boolean;         // Reject addresses whose domain looks like a misspelt common domain, e.g. "gmial.com"
+  disposableDomains?: string[];  // Added to the built-in list; subdomains match too
+  roleAccounts?: string[];       // Added to the built-in list of local parts
+}
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+  name: string; // Histograms use the _bucket, _sum and _count suffixes
+  labels: MetricLabels;
+  value: number;
+}
+
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: MetricSample[];
+}
+
+export interface MetricsOptions {
+  latencyBuckets?: number[];  // Provider call latency buckets in seconds
+  deliveryBuckets?: number[]; // End-to-end delivery time buckets in seconds
+}
+
+export interface QueueOptions {
+  agingIntervalMs: number; // Time waited before an email is promoted one priority level
+}
+
+export interface IdempotencyOptions {
+  ttlMs?: number; // How long sent keys are remembered; forever when omitted
+}
+
+export interface DeadLetterOptions {
+  maxSize: number;      // Oldest dead letters are evicted beyond this size
+  retentionMs: number;  // Dead letters older than this are discarded
+}
+
+/**
+ * Identifies a span within a trace, as in OpenTelemetry and W3C Trace Context
+ */
+export interface SpanContext {
+  traceId: string;    // 32 lower-case hex characters
+  spanId: string;     // 16 lower-case hex characters
+  traceFlags: number; // 1 when sampled
+}
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+export type SpanStatusCode = 'unset' | 'ok' | 'error';
+
+export interface SpanOptions {
+  parent?: SpanContext; // Starts a new trace when omitted
+  attributes?: SpanAttributes;
+  startTime?: number;
+}
+
+/**
+ * A timed operation. Mirrors the parts of the OpenTelemetry Span API the service uses,
+ * so an OpenTelemetry tracer can be adapted with a thin wrapper.
+ */
+export interface Span {
+  readonly name: string;
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: SpanAttributeValue | undefined): this;
+  setAttributes(attributes: SpanAttributes): this;
+  addEvent(name: string, attributes?: SpanAttributes): this;
+  setStatus(code: SpanStatusCode, message?: string): this;
+  recordException(error: unknown): this;
+  end(endTime?: number): void;
+}
+
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions): Span;
+}
+
+/**
+ * A span after it ended, as handed to a SpanExporter
+ */
+export interface FinishedSpan {
+  name: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+  attributes: Record<string, SpanAttributeValue>;
+  events: Array<{ name: string; time: number; attributes: Record<string, SpanAttributeValue> }>;
+  status: { code: SpanStatusCode; message?: string };
+}
+
+export interface SpanExporter {
+  export(spans: FinishedSpan[]): void;
 }
 
 export interface EmailServiceOptions {
   retry: RetryOptions;
+  retryPolicy?: RetryPolicy; // Custom policy used instead of the one built from `retry`
+  routing?: RoutingStrategy;  // Defaults to priority order (constructor order)
+  providerStats?: ProviderStatsOptions; // Window used for latency and health based routing
   rateLimit: RateLimitOptions;
   circuitBreaker: CircuitBreakerOptions;
-  enableLogging: boolean;
+  queue?: QueueOptions;
+  storage?: EmailStorage; // Defaults to in-memory storage
+  deadLetter?: DeadLetterOptions;
+  idempotency?: IdempotencyOptions;
+  templates?: TemplateRenderer; // Used by sendTemplate, usually a TemplateRegistry
+  suppression?: SuppressionOptions;
+  addressPolicy?: AddressPolicy; // Applies to recipients; the sender only has to be well-formed
+  metrics?: MetricsOptions;
+  tracer?: Tracer; // Defaults to a no-op tracer
+  logging?: LoggingOptions;
+  maxHistory?: number; // Attempts kept in each email status history, newest last; defaults to 50
+  enableLogging: boolean; // When false nothing is written to any sink; entries are still kept for getStatistics
+}
+
+export interface BatchOptions {
+  concurrency?: number;      // Messages sent at the same time, defaults to 5
+  stopOnErrorRate?: number;  // 0-1; no new messages are started once the failure rate exceeds this
+  minResults?: number;       // Results needed before stopOnErrorRate applies, defaults to 10
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+export interface BatchItemResult {
+  index: number;             // Position in the input array
+  messageId: string;
+  result: EmailResult;
+  outcome: 'sent' | 'failed' | 'deferred'; // Deferred messages were queued or scheduled
+  attempts: number;
+  durationMs: number;
+}
+
+export interface BatchProgress {
+  item: BatchItemResult;
+  completed: number;
+  total: number;
+  sent: number;
+  failed: number;
+  deferred: number;
+}
+
+export interface BatchReport {
+  total: number;
+  sent: number;
+  failed: number;
+  deferred: number;
+  skipped: string[];         // IDs never started because the batch stopped early
+  stopped: boolean;
+  results: BatchItemResult[]; // In input order
+  providers: Record<string, { sent: number; failed: number }>;
+  retries: number;           // Attempts beyond the first, across all messages
+  startedAt: number;
+  durationMs: number;
+}
+
+export type TemplateVariables = Record<string, unknown>;
+
+export type TemplateVariableType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+export interface TemplateDefinition<V extends TemplateVariables = TemplateVariables> {
+  id: string;
+  version?: number;   // Defaults to one more than the latest registered version
+  subject: string;
+  html?: string;      // At least one of html and text is required
+  text?: string;      // Generated from the HTML when omitted
+  layout?: string;    // Name of a registered layout to wrap the content in
+  variables?: { [K in keyof V]?: TemplateVariableType }; // Declared variables are required and type checked
+}
+
+export type EmailTemplate<V extends TemplateVariables = TemplateVariables> =
+  TemplateDefinition<V> & { version: number; createdAt: number };
+
+/**
+ * Shared wrapper for template content, which is inserted with `{{{content}}}`
+ */
+export interface TemplateLayout {
+  html?: string;
+  text?: string;
+}
+
+export interface RenderedTemplate {
+  templateId: string;
+  version: number;
+  subject: string;
+  html?: string;
+  text: string;
+}
+
+export interface TemplateRenderer {
+  render<V extends TemplateVariables>(template: string | EmailTemplate<V>, vars: V, version?: number): RenderedTemplate;
 }
 
+export type SendTemplateOptions = Partial<Omit<EmailMessage, 'to' | 'subject' | 'body' | 'html' | 'template'>> & {
+  version?: number; // Pin a template version instead of using the latest
+};
+
+export interface DrainOptions {
+  timeout?: number; // Give up waiting after this many ms; waits indefinitely when omitted
+}
+
+export interface ShutdownResult {
+  drained: boolean;            // False when the timeout passed with deliveries still running
+  queued: QueuedEmail[];       // Never sent; still persisted in storage for the next start
+  scheduled: ScheduledEmail[]; // Not yet due; still persisted in storage for the next start
+}
+
+/**
+ * Payloads of the lifecycle events emitted by EmailService, keyed by event name
+ */
+export interface EmailServiceEvents {
+  'queued': { messageId: string; priority: EmailPriority; reason: 'rate-limited' | 'circuit-open' | 'quota-exhausted' | 'paused'; queueSize: number; timestamp: number };
+  'scheduled': { messageId: string; sendAt: number; timestamp: number };
+  'rate-limited': { messageId: string; waitTime: number; domain?: string; timestamp: number };
+  'attempt-started': { messageId: string; provider: string; attempt: number; timestamp: number };
+  'attempt-failed': {
+    messageId: string;
+    provider: string;
+    attempt: number;
+    error: string;
+    category: ErrorCategory;
+    retryInMs?: number; // Absent when this provider will not be tried again
+    timestamp: number;
+  };
+  'provider-fallback': { messageId: string; from: string; to: string; error: string; category: ErrorCategory; timestamp: number };
+  'sent': { messageId: string; provider: string; providerMessageId?: string; attempts: number; timestamp: number };
+  'failed': {
+    messageId: string;
+    error: string;
+    errorCategory?: ErrorCategory;
+    provider?: string; // Provider of the last failed attempt; absent when none was tried
+    attempts: number;
+    deadLettered: boolean;
+    timestamp: number;
+  };
+  'cancelled': { messageId: string; timestamp: number };
+  'suppressed': { messageId: string; recipients: string[]; reasons: SuppressionReason[]; timestamp: number };
+  'circuit-state-changed': { provider: string; from: CircuitState; to: CircuitState; timestamp: number };
+}
+
+export type EmailServiceEventName = keyof EmailServiceEvents;
+
+export type EmailServiceListener<K extends EmailServiceEventName> = (event: EmailServiceEvents[K]) => void;
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
 export interface LogEntry {
-  level: 'info' | 'warn' | 'error';
+  level: LogLevel;
   message: string;
   timestamp: number;
-  context?: Record<string, any>;
+  context?: Record<string, unknown>;
+  correlationId?: string; // Same for every entry about one message
+}
+
+/**
+ * Receives every log entry at or above the logger's level, already redacted
+ */
+export interface LogSink {
+  write(entry: LogEntry): void;
+}
+
+/**
+ * How personal data is kept out of log entries
+ */
+export interface RedactionPolicy {
+  emails?: 'mask' | 'hash' | 'none'; // Defaults to 'mask': "jane@example.com" becomes "j***@example.com"
+  bodies?: boolean;                  // Replace body, html, text and attachment content; defaults to true
+  keys?: string[];                   // Further context keys whose values are always replaced
+}
+
+export interface LoggingOptions {
+  level?: LogLevel;           // Entries below this level are dropped; defaults to 'info'
+  sinks?: LogSink[];          // Defaults to a console sink; only used when enableLogging is true
+  redaction?: RedactionPolicy;
 }
\ No newline at end of file
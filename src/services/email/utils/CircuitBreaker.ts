@@ -1,78 +1,146 @@
-import { CircuitBreakerOptions } from '../types';
+import { CircuitBreakerOptions, CircuitState } from '../types';
+import { CircuitOpenError, classifyError, countsAgainstCircuit } from '../errors';
+
+interface CallRecord {
+  time: number;
+  failed: boolean;
+}
 
 /**
- * Circuit breaker implementation to prevent cascading failures
+ * Circuit breaker implementation to prevent cascading failures.
+ *
+ * In 'count' mode the circuit opens after `failureThreshold` failures within
+ * the monitoring window; in 'rate' mode it opens once the failure percentage
+ * reaches `failureRateThreshold` over at least `minimumRequests` calls.
+ * Slow calls can be counted as failures, half-open probing is limited in
+ * concurrency, and the open period can grow on consecutive trips.
  */
 export class CircuitBreaker {
   private failures = 0;
-  private lastFailureTime = 0;
-  private state: 'closed' | 'open' | 'half-open' = 'closed';
+  private openedAt = 0;
+  private state: CircuitState = 'closed';
   private successCount = 0;
-  private readonly failureHistory: number[] = [];
+  private probesInFlight = 0;
+  private consecutiveTrips = 0;
+  private readonly callHistory: CallRecord[] = [];
 
-  constructor(private options: CircuitBreakerOptions) {}
+  constructor(
+    private options: CircuitBreakerOptions,
+    private onStateChange?: (from: CircuitState, to: CircuitState) => void
+  ) {}
 
   async execute<T>(operation: () => Promise<T>): Promise<T> {
-    if (this.state === 'open') {
-      if (Date.now() - this.lastFailureTime > this.options.resetTimeout) {
-        this.state = 'half-open';
-        this.successCount = 0;
-      } else {
-        throw new Error('Circuit breaker is OPEN');
+    if (this.getState() === 'open') {
+      throw new CircuitOpenError();
+    }
+
+    const isProbe = this.state === 'half-open';
+    if (isProbe) {
+      if (this.probesInFlight >= (this.options.halfOpenMaxConcurrent ?? 1)) {
+        throw new CircuitOpenError('Circuit breaker is HALF-OPEN and probes are in flight');
       }
+      this.probesInFlight++;
     }
 
+    const startedAt = Date.now();
     try {
       const result = await operation();
-      this.onSuccess();
+      const slow = this.options.slowCallThreshold !== undefined &&
+        Date.now() - startedAt > this.options.slowCallThreshold;
+      if (slow) {
+        this.onFailure();
+      } else {
+        this.onSuccess();
+      }
       return result;
     } catch (error) {
-      this.onFailure();
+      // Rejections caused by the request itself (e.g. a bad recipient) say nothing about provider health
+      if (countsAgainstCircuit(classifyError(error))) {
+        this.onFailure();
+      }
       throw error;
+    } finally {
+      if (isProbe) {
+        this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      }
     }
   }
 
   private onSuccess(): void {
     this.failures = 0;
-    this.cleanupHistory();
+    this.record(false);
     
     if (this.state === 'half-open') {
       this.successCount++;
-      if (this.successCount >= 2) {
-        this.state = 'closed';
+      if (this.successCount >= (this.options.halfOpenProbes ?? 2)) {
+        this.consecutiveTrips = 0;
+        this.callHistory.length = 0;
+        this.transition('closed');
       }
     }
   }
 
   private onFailure(): void {
     this.failures++;
-    this.lastFailureTime = Date.now();
-    this.failureHistory.push(this.lastFailureTime);
-    this.cleanupHistory();
+    this.record(true);
 
     if (this.state === 'half-open') {
-      this.state = 'open';
+      this.trip();
       return;
     }
 
-    const recentFailures = this.failureHistory.filter(
-      time => Date.now() - time < this.options.monitoringWindow
-    );
+    if (this.state === 'closed' && this.shouldTrip()) {
+      this.trip();
+    }
+  }
 
-    if (recentFailures.length >= this.options.failureThreshold) {
-      this.state = 'open';
+  private shouldTrip(): boolean {
+    const failed = this.callHistory.filter(call => call.failed).length;
+
+    if (this.options.mode === 'rate') {
+      if (this.callHistory.length < (this.options.minimumRequests ?? 10)) {
+        return false;
+      }
+      return (failed / this.callHistory.length) * 100 >= (this.options.failureRateThreshold ?? 50);
     }
+
+    return failed >= this.options.failureThreshold;
   }
 
-  private cleanupHistory(): void {
-    const cutoff = Date.now() - this.options.monitoringWindow;
-    const index = this.failureHistory.findIndex(time => time >= cutoff);
+  private trip(): void {
+    this.consecutiveTrips++;
+    this.openedAt = Date.now();
+    this.transition('open');
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    this.state = to;
+    if (from !== to) {
+      this.onStateChange?.(from, to);
+    }
+  }
+
+  private record(failed: boolean): void {
+    const now = Date.now();
+    this.callHistory.push({ time: now, failed });
+
+    const cutoff = now - this.options.monitoringWindow;
+    const index = this.callHistory.findIndex(call => call.time >= cutoff);
     if (index > 0) {
-      this.failureHistory.splice(0, index);
+      this.callHistory.splice(0, index);
     }
   }
 
-  getState(): 'closed' | 'open' | 'half-open' {
+  /**
+   * Current state; an open circuit reports half-open once its reset timeout
+   * has passed, so callers checking the state know a probe is allowed
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt > this.getResetTimeout()) {
+      this.transition('half-open');
+      this.successCount = 0;
+    }
     return this.state;
   }
 
@@ -80,11 +148,42 @@ export class CircuitBreaker {
     return this.failures;
   }
 
+  /**
+   * Percentage of failed calls within the monitoring window
+   */
+  getFailureRate(): number {
+    const cutoff = Date.now() - this.options.monitoringWindow;
+    const recent = this.callHistory.filter(call => call.time >= cutoff);
+    if (recent.length === 0) {
+      return 0;
+    }
+    return (recent.filter(call => call.failed).length / recent.length) * 100;
+  }
+
+  /**
+   * How long the circuit stays open after the latest trip
+   */
+  getResetTimeout(): number {
+    const multiplier = this.options.resetTimeoutMultiplier ?? 1;
+    const grown = this.options.resetTimeout * Math.pow(multiplier, Math.max(0, this.consecutiveTrips - 1));
+    return Math.min(grown, this.options.maxResetTimeout ?? Infinity);
+  }
+
+  /**
+   * Time until an open circuit lets a probe through; 0 when it is not open
+   */
+  getRemainingTime(): number {
+    if (this.getState() !== 'open') return 0;
+    return Math.max(0, this.openedAt + this.getResetTimeout() - Date.now());
+  }
+
   reset(): void {
     this.failures = 0;
-    this.lastFailureTime = 0;
-    this.state = 'closed';
+    this.openedAt = 0;
+    this.transition('closed');
     this.successCount = 0;
-    this.failureHistory.length = 0;
+    this.probesInFlight = 0;
+    this.consecutiveTrips = 0;
+    this.callHistory.length = 0;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,98 @@
+import { DeadLetter, DeadLetterOptions, EmailStorage } from '../types';
+
+/**
+ * Keeps emails that exhausted every provider so they can be inspected and replayed
+ */
+export class DeadLetterQueue {
+  constructor(
+    private storage: EmailStorage,
+    private options: DeadLetterOptions = { maxSize: 1000, retentionMs: 7 * 24 * 60 * 60 * 1000 }
+  ) {}
+
+  /**
+   * Store a dead letter, merging the failure history of an earlier entry for the same message
+   */
+  add(entry: DeadLetter): void {
+    const existing = this.get(entry.message.id);
+
+    this.storage.saveDeadLetter(
+      existing
+        ? {
+            ...entry,
+            failures: [...existing.failures, ...entry.failures],
+            replayCount: existing.replayCount + entry.replayCount
+          }
+        : entry
+    );
+
+    this.prune();
+  }
+
+  get(messageId: string): DeadLetter | undefined {
+    const letter = this.storage.getDeadLetter(messageId);
+    if (letter && this.isExpired(letter)) {
+      this.storage.removeDeadLetter(messageId);
+      return undefined;
+    }
+    return letter;
+  }
+
+  list(filter?: (letter: DeadLetter) => boolean): DeadLetter[] {
+    this.prune();
+    const letters = this.storage
+      .getDeadLetters()
+      .sort((a, b) => a.deadLetteredAt - b.deadLetteredAt);
+    return filter ? letters.filter(filter) : letters;
+  }
+
+  markReplayed(messageId: string): void {
+    const letter = this.get(messageId);
+    if (letter) {
+      this.storage.saveDeadLetter({ ...letter, replayCount: letter.replayCount + 1 });
+    }
+  }
+
+  remove(messageId: string): void {
+    if (this.storage.getDeadLetter(messageId)) {
+      this.storage.removeDeadLetter(messageId);
+    }
+  }
+
+  /**
+   * Remove dead letters matching the filter (all of them by default) and return how many were removed
+   */
+  purge(filter?: (letter: DeadLetter) => boolean): number {
+    const letters = this.list(filter);
+    letters.forEach(letter => this.storage.removeDeadLetter(letter.message.id));
+    return letters.length;
+  }
+
+  /**
+   * Dead letters within the retention period; add() keeps this at most maxSize
+   */
+  size(): number {
+    return this.storage.getDeadLetters().filter(letter => !this.isExpired(letter)).length;
+  }
+
+  private isExpired(letter: DeadLetter): boolean {
+    return letter.deadLetteredAt < Date.now() - this.options.retentionMs;
+  }
+
+  /**
+   * Drop expired dead letters, then the oldest beyond maxSize
+   */
+  private prune(): void {
+    const letters = this.storage.getDeadLetters();
+    const expired = letters.filter(letter => this.isExpired(letter));
+    expired.forEach(letter => this.storage.removeDeadLetter(letter.message.id));
+
+    const excess = letters.length - expired.length - this.options.maxSize;
+    if (excess > 0) {
+      letters
+        .filter(letter => !this.isExpired(letter))
+        .sort((a, b) => a.deadLetteredAt - b.deadLetteredAt)
+        .slice(0, excess)
+        .forEach(letter => this.storage.removeDeadLetter(letter.message.id));
+    }
+  }
+}
@@ -0,0 +1,58 @@
+type Listener<T> = (event: T) => void;
+
+/**
+ * Minimal typed event emitter that works in browsers and Node alike.
+ * A throwing listener is reported through `onListenerError` and never
+ * interrupts the emitter or the other listeners.
+ */
+export class EventEmitter<Events extends object> {
+  private readonly listeners: Map<keyof Events, Set<Listener<never>>> = new Map();
+
+  constructor(private onListenerError?: (event: keyof Events, error: unknown) => void) {}
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  once<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const wrapper: Listener<Events[K]> = payload => {
+      this.off(event, wrapper);
+      listener(payload);
+    };
+    return this.on(event, wrapper);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return;
+
+    // Copy so listeners can unsubscribe while being called
+    [...listeners].forEach(listener => {
+      try {
+        (listener as Listener<Events[K]>)(payload);
+      } catch (error) {
+        this.onListenerError?.(event, error);
+      }
+    });
+  }
+
+  listenerCount(event: keyof Events): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  removeAllListeners(event?: keyof Events): void {
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import * as fs from 'node:fs';
+import { LogEntry, LogSink } from '../types';
+
+/**
+ * Appends each log entry to a file as one JSON object per line (Node only)
+ */
+export class JsonLinesFileSink implements LogSink {
+  constructor(private path: string) {}
+
+  write(entry: LogEntry): void {
+    fs.appendFileSync(this.path, `${JSON.stringify(entry)}\n`);
+  }
+}
@@ -1,55 +1,190 @@
-import { LogEntry } from '../types';
+import { LogEntry, LogLevel, LogSink, LoggingOptions, RedactionPolicy } from '../types';
+import { hashText } from '../message/fingerprint';
+
+export interface LoggerOptions extends LoggingOptions {
+  maxEntries?: number; // Entries kept for getLogs and getRecentLogs, defaults to 1000
+  correlationIdFor?: (messageId: string) => string | undefined; // Used for entries with a messageId in their context
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+const EMAIL_PATTERN = /[^\s@<>()[\]\\,;:"']+@[^\s@<>()[\]\\,;:"']+\.[^\s@<>()[\]\\,;:"']+/g;
+const BODY_KEYS = ['body', 'html', 'text', 'content', 'attachments'];
+const REDACTED = '[redacted]';
+
+/**
+ * Writes entries to the console, e.g. `[EmailService] Email sent successfully {"messageId":"m1"}`
+ */
+export class ConsoleSink implements LogSink {
+  constructor(private options: { prefix?: string; json?: boolean } = {}) {}
+
+  write(entry: LogEntry): void {
+    if (typeof console === 'undefined') return;
+    if (this.options.json) {
+      console[entry.level](JSON.stringify(entry));
+      return;
+    }
+    const context = entry.correlationId ? { ...entry.context, correlationId: entry.correlationId } : entry.context;
+    const contextStr = context ? ` ${JSON.stringify(context)}` : '';
+    console[entry.level](`${this.options.prefix ?? '[EmailService]'} ${entry.message}${contextStr}`);
+  }
+}
+
+/**
+ * Keeps the most recent entries in memory
+ */
+export class RingBufferSink implements LogSink {
+  private entries: LogEntry[] = [];
+
+  constructor(private capacity: number = 1000) {}
+
+  write(entry: LogEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity);
+    }
+  }
+
+  getEntries(): LogEntry[] {
+    return [...this.entries];
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
 
 /**
- * Simple logging utility for the email service
+ * Structured logger for the email service. Entries below the minimum level are
+ * dropped, the rest are redacted and passed to every sink. A sink that throws
+ * never affects the caller or the other sinks.
  */
 export class Logger {
-  private logs: LogEntry[] = [];
-  private readonly maxLogs = 1000;
+  private readonly recent: RingBufferSink;
+  private readonly sinks: LogSink[];
+  private level: LogLevel;
+
+  constructor(private options: LoggerOptions = {}) {
+    this.recent = new RingBufferSink(options.maxEntries ?? 1000);
+    this.sinks = options.sinks ?? [new ConsoleSink()];
+    this.level = options.level ?? 'info';
+  }
+
+  log(level: LogLevel, message: string, context?: Record<string, unknown>): void {
+    if (LEVELS[level] < LEVELS[this.level]) {
+      return;
+    }
 
-  log(level: LogEntry['level'], message: string, context?: Record<string, any>): void {
+    const policy = this.options.redaction || {};
+    const messageId = context?.messageId;
+    const correlationId = typeof messageId === 'string' ? this.options.correlationIdFor?.(messageId) : undefined;
     const entry: LogEntry = {
       level,
-      message,
+      message: redactText(message, policy),
       timestamp: Date.now(),
-      context
+      context: context && (redactValue(context, policy) as Record<string, unknown>),
+      ...(correlationId && { correlationId })
     };
 
-    this.logs.push(entry);
-    
-    // Keep only recent logs
-    if (this.logs.length > this.maxLogs) {
-      this.logs = this.logs.slice(-this.maxLogs);
-    }
+    this.recent.write(entry);
+    this.sinks.forEach(sink => {
+      try {
+        sink.write(entry);
+      } catch {
+        // Logging must never break sending
+      }
+    });
+  }
 
-    // Console output for development
-    if (typeof console !== 'undefined') {
-      const contextStr = context ? ` ${JSON.stringify(context)}` : '';
-      console[level](`[EmailService] ${message}${contextStr}`);
-    }
+  debug(message: string, context?: Record<string, unknown>): void {
+    this.log('debug', message, context);
   }
 
-  info(message: string, context?: Record<string, any>): void {
+  info(message: string, context?: Record<string, unknown>): void {
     this.log('info', message, context);
   }
 
-  warn(message: string, context?: Record<string, any>): void {
+  warn(message: string, context?: Record<string, unknown>): void {
     this.log('warn', message, context);
   }
 
-  error(message: string, context?: Record<string, any>): void {
+  error(message: string, context?: Record<string, unknown>): void {
     this.log('error', message, context);
   }
 
-  getLogs(level?: LogEntry['level']): LogEntry[] {
-    return level ? this.logs.filter(log => log.level === level) : [...this.logs];
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
+  getLevel(): LogLevel {
+    return this.level;
+  }
+
+  getLogs(level?: LogLevel): LogEntry[] {
+    const entries = this.recent.getEntries();
+    return level ? entries.filter(log => log.level === level) : entries;
   }
 
   getRecentLogs(count: number = 50): LogEntry[] {
-    return this.logs.slice(-count);
+    return this.recent.getEntries().slice(-count);
   }
 
   clear(): void {
-    this.logs = [];
+    this.recent.clear();
+  }
+}
+
+/**
+ * Apply a redaction policy to a log value; objects and arrays are copied, never changed
+ */
+export function redactValue(value: unknown, policy: RedactionPolicy = {}, key?: string): unknown {
+  if (key !== undefined && (policy.keys || []).includes(key)) {
+    return REDACTED;
+  }
+  if (key !== undefined && policy.bodies !== false && BODY_KEYS.includes(key)) {
+    return value === undefined || value === null ? value : REDACTED;
+  }
+  if (typeof value === 'string') {
+    return redactText(value, policy);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, policy));
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message, policy) };
+  }
+  // Only plain objects are copied; class instances such as a storage are left as they are
+  if (value !== null && typeof value === 'object' && [Object.prototype, null].includes(Object.getPrototypeOf(value))) {
+    return Object.fromEntries(
+      Object.entries(value).map(([entryKey, entryValue]) => [entryKey, redactValue(entryValue, policy, entryKey)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Mask or hash every email address in the text, keeping the domain for debugging
+ */
+export function redactText(text: string, policy: RedactionPolicy = {}): string {
+  const mode = policy.emails ?? 'mask';
+  if (mode === 'none') {
+    return text;
+  }
+  return text.replace(EMAIL_PATTERN, address => {
+    const at = address.lastIndexOf('@');
+    const local = address.slice(0, at);
+    const domain = address.slice(at + 1);
+    return mode === 'hash'
+      ? `${hashText(address.toLowerCase())}@${domain}`
+      : `${local[0]}***@${domain}`;
+  });
+}
+
+/**
+ * ID for correlating log entries when the caller did not provide one
+ */
+export function createCorrelationId(): string {
+  if (typeof globalThis.crypto?.randomUUID === 'function') {
+    return globalThis.crypto.randomUUID();
   }
-}
\ No newline at end of file
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,256 @@
+import { MetricFamily, MetricLabels, MetricSample, MetricType } from '../types';
+
+// Seconds, as Prometheus expects
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+export const DEFAULT_DELIVERY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 300, 900];
+
+const NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+/**
+ * Values per label set. Label sets are keyed by their sorted entries, so
+ * `{ a, b }` and `{ b, a }` are the same series.
+ */
+class Series<T> {
+  private readonly entries: Map<string, { labels: MetricLabels; value: T }> = new Map();
+
+  get(labels: MetricLabels): T | undefined {
+    return this.entries.get(seriesKey(labels))?.value;
+  }
+
+  set(labels: MetricLabels, value: T): void {
+    this.entries.set(seriesKey(labels), { labels: { ...labels }, value });
+  }
+
+  all(): Array<{ labels: MetricLabels; value: T }> {
+    return Array.from(this.entries.values());
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+abstract class Metric {
+  abstract readonly type: MetricType;
+
+  constructor(readonly name: string, readonly help: string) {
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid metric name: ${name}`);
+    }
+  }
+
+  abstract collect(): MetricSample[];
+  abstract reset(): void;
+}
+
+/**
+ * A value that only goes up, e.g. the number of emails sent
+ */
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private readonly series = new Series<number>();
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot be decreased`);
+    }
+    this.series.set(labels, this.get(labels) + value);
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(labels) ?? 0;
+  }
+
+  collect(): MetricSample[] {
+    return this.series.all().map(({ labels, value }) => ({ name: this.name, labels, value }));
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * A value that goes up and down. `refresh` is called before every collection,
+ * so gauges such as the queue depth are read when scraped instead of kept in sync.
+ */
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+  private readonly series = new Series<number>();
+
+  constructor(name: string, help: string, private refresh?: (gauge: Gauge) => void) {
+    super(name, help);
+  }
+
+  set(value: number, labels: MetricLabels = {}): void {
+    this.series.set(labels, value);
+  }
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    this.series.set(labels, this.get(labels) + value);
+  }
+
+  dec(labels: MetricLabels = {}, value: number = 1): void {
+    this.series.set(labels, this.get(labels) - value);
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(labels) ?? 0;
+  }
+
+  collect(): MetricSample[] {
+    this.refresh?.(this);
+    return this.series.all().map(({ labels, value }) => ({ name: this.name, labels, value }));
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+interface HistogramValue {
+  counts: number[]; // Per bucket, not cumulative; the last entry is +Inf
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values, e.g. latencies, in fixed buckets
+ */
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private readonly series = new Series<HistogramValue>();
+  readonly buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_LATENCY_BUCKETS) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: MetricLabels = {}): void {
+    const current = this.series.get(labels) || {
+      counts: new Array(this.buckets.length + 1).fill(0),
+      sum: 0,
+      count: 0
+    };
+    const index = this.buckets.findIndex(bound => value <= bound);
+    current.counts[index === -1 ? this.buckets.length : index]++;
+    current.sum += value;
+    current.count++;
+    this.series.set(labels, current);
+  }
+
+  /**
+   * Count and sum of the observations for one label set
+   */
+  get(labels: MetricLabels = {}): { count: number; sum: number } {
+    const value = this.series.get(labels);
+    return { count: value?.count ?? 0, sum: value?.sum ?? 0 };
+  }
+
+  collect(): MetricSample[] {
+    return this.series.all().flatMap(({ labels, value }) => {
+      let cumulative = 0;
+      const bounds = [...this.buckets.map(String), '+Inf'];
+      const buckets = bounds.map((le, index) => {
+        cumulative += value.counts[index];
+        return { name: `${this.name}_bucket`, labels: { ...labels, le }, value: cumulative };
+      });
+      return [
+        ...buckets,
+        { name: `${this.name}_sum`, labels, value: value.sum },
+        { name: `${this.name}_count`, labels, value: value.count }
+      ];
+    });
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * Named counters, gauges and histograms. Registering a name again returns the
+ * existing metric, so callers do not have to keep references around.
+ */
+export class MetricsRegistry {
+  private readonly metrics: Map<string, Metric> = new Map();
+
+  counter(name: string, help: string): Counter {
+    return this.register(name, 'counter', () => new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, refresh?: (gauge: Gauge) => void): Gauge {
+    return this.register(name, 'gauge', () => new Gauge(name, help, refresh));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(name, 'histogram', () => new Histogram(name, help, buckets));
+  }
+
+  get(name: string): Counter | Gauge | Histogram | undefined {
+    return this.metrics.get(name) as Counter | Gauge | Histogram | undefined;
+  }
+
+  collect(): MetricFamily[] {
+    return Array.from(this.metrics.values()).map(metric => ({
+      name: metric.name,
+      help: metric.help,
+      type: metric.type,
+      samples: metric.collect()
+    }));
+  }
+
+  /**
+   * Zero every metric; the metrics stay registered
+   */
+  reset(): void {
+    this.metrics.forEach(metric => metric.reset());
+  }
+
+  private register<T extends Metric>(name: string, type: MetricType, create: () => T): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing as T;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+/**
+ * Render metrics in the Prometheus text exposition format (version 0.0.4),
+ * ready to be served with `Content-Type: text/plain; version=0.0.4`
+ */
+export function renderPrometheus(source: MetricsRegistry | MetricFamily[]): string {
+  const families = Array.isArray(source) ? source : source.collect();
+  return families
+    .map(family => [
+      `# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+      `# TYPE ${family.name} ${family.type}`,
+      ...family.samples.map(sample => `${sample.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`)
+    ].join('\n'))
+    .join('\n') + '\n';
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) =>
+    `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
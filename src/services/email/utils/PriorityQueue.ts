@@ -0,0 +1,94 @@
+import { EmailPriority, QueuedEmail, QueueOptions } from '../types';
+
+const PRIORITY_WEIGHTS: Record<EmailPriority, number> = {
+  high: 2,
+  normal: 1,
+  low: 0
+};
+
+const PRIORITIES: EmailPriority[] = ['high', 'normal', 'low'];
+
+/**
+ * Priority queue for emails with aging to prevent starvation.
+ *
+ * Each priority has its own FIFO lane. The effective priority of a queued
+ * email grows by one level for every `agingIntervalMs` it has waited, so a
+ * low priority email eventually outranks newly queued high priority mail.
+ */
+export class PriorityQueue {
+  private readonly lanes: Record<EmailPriority, QueuedEmail[]> = {
+    high: [],
+    normal: [],
+    low: []
+  };
+
+  constructor(private options: QueueOptions = { agingIntervalMs: 30000 }) {}
+
+  enqueue(entry: QueuedEmail): void {
+    this.lanes[entry.message.priority || 'normal'].push(entry);
+  }
+
+  /**
+   * Remove and return the entry with the highest effective priority.
+   * With a predicate, entries it rejects are skipped and keep their place.
+   */
+  dequeue(now: number = Date.now(), predicate?: (entry: QueuedEmail) => boolean): QueuedEmail | undefined {
+    let best: { priority: EmailPriority; index: number; entry: QueuedEmail } | undefined;
+    let bestScore = -Infinity;
+
+    for (const priority of PRIORITIES) {
+      const lane = this.lanes[priority];
+      const index = predicate ? lane.findIndex(predicate) : lane.length > 0 ? 0 : -1;
+      if (index === -1) continue;
+
+      // Ties are resolved in favour of the entry that has waited longest
+      const entry = lane[index];
+      const score = this.getEffectivePriority(entry, now);
+      if (score > bestScore || (score === bestScore && best && entry.enqueuedAt < best.entry.enqueuedAt)) {
+        best = { priority, index, entry };
+        bestScore = score;
+      }
+    }
+
+    return best ? this.lanes[best.priority].splice(best.index, 1)[0] : undefined;
+  }
+
+  remove(messageId: string): QueuedEmail | undefined {
+    for (const priority of PRIORITIES) {
+      const lane = this.lanes[priority];
+      const index = lane.findIndex(entry => entry.message.id === messageId);
+      if (index !== -1) {
+        return lane.splice(index, 1)[0];
+      }
+    }
+    return undefined;
+  }
+
+  size(): number {
+    return PRIORITIES.reduce((total, priority) => total + this.lanes[priority].length, 0);
+  }
+
+  sizeByPriority(): Record<EmailPriority, number> {
+    return {
+      high: this.lanes.high.length,
+      normal: this.lanes.normal.length,
+      low: this.lanes.low.length
+    };
+  }
+
+  toArray(): QueuedEmail[] {
+    return PRIORITIES.flatMap(priority => [...this.lanes[priority]]);
+  }
+
+  clear(): void {
+    PRIORITIES.forEach(priority => {
+      this.lanes[priority].length = 0;
+    });
+  }
+
+  private getEffectivePriority(entry: QueuedEmail, now: number): number {
+    const waited = Math.max(0, now - entry.enqueuedAt);
+    const aging = this.options.agingIntervalMs > 0 ? waited / this.options.agingIntervalMs : 0;
+    return PRIORITY_WEIGHTS[entry.message.priority || 'normal'] + aging;
+  }
+}
@@ -0,0 +1,81 @@
+import { ProviderQuotaStatus, RateLimitOptions } from '../types';
+import { RateLimiter } from './RateLimiter';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Tracks one provider's own rate limit and daily quota.
+ * Daily usage resets at midnight UTC and is kept in memory only.
+ */
+export class ProviderQuota {
+  private readonly rateLimiter?: RateLimiter;
+  private dayStart: number;
+  private usedToday = 0;
+
+  constructor(
+    rateLimit?: RateLimitOptions,
+    private dailyQuota?: number
+  ) {
+    this.rateLimiter = rateLimit ? new RateLimiter(rateLimit) : undefined;
+    this.dayStart = this.startOfDay(Date.now());
+  }
+
+  hasCapacity(): boolean {
+    this.rollDay();
+    const rateOk = !this.rateLimiter || this.rateLimiter.getAvailableTokens() >= 1;
+    const dailyOk = this.dailyQuota === undefined || this.usedToday < this.dailyQuota;
+    return rateOk && dailyOk;
+  }
+
+  /**
+   * Use one unit of capacity for a send attempt; returns false without using any when there is none
+   */
+  tryAcquire(): boolean {
+    if (!this.hasCapacity()) {
+      return false;
+    }
+    this.rateLimiter?.tryAcquire();
+    this.usedToday++;
+    return true;
+  }
+
+  /**
+   * Time until the provider has capacity again
+   */
+  getWaitTime(now: number = Date.now()): number {
+    this.rollDay();
+    if (this.dailyQuota !== undefined && this.usedToday >= this.dailyQuota) {
+      return this.dayStart + DAY_MS - now;
+    }
+    if (this.rateLimiter && this.rateLimiter.getAvailableTokens() < 1) {
+      return this.rateLimiter.getRemainingTime();
+    }
+    return 0;
+  }
+
+  getStatus(): ProviderQuotaStatus {
+    this.rollDay();
+    const status: ProviderQuotaStatus = {};
+    if (this.rateLimiter) {
+      status.rateLimitTokens = this.rateLimiter.getAvailableTokens();
+    }
+    if (this.dailyQuota !== undefined) {
+      status.dailyQuota = this.dailyQuota;
+      status.dailyRemaining = Math.max(0, this.dailyQuota - this.usedToday);
+      status.resetsAt = this.dayStart + DAY_MS;
+    }
+    return status;
+  }
+
+  private rollDay(): void {
+    const today = this.startOfDay(Date.now());
+    if (today !== this.dayStart) {
+      this.dayStart = today;
+      this.usedToday = 0;
+    }
+  }
+
+  private startOfDay(time: number): number {
+    return Math.floor(time / DAY_MS) * DAY_MS;
+  }
+}
@@ -0,0 +1,45 @@
+import { ProviderStats, ProviderStatsOptions } from '../types';
+
+interface Sample {
+  success: boolean;
+  latencyMs: number;
+  timestamp: number;
+}
+
+/**
+ * Records the outcome and latency of recent provider calls in a rolling window
+ */
+export class ProviderStatsTracker {
+  private readonly samples: Map<string, Sample[]> = new Map();
+
+  constructor(private options: ProviderStatsOptions = { windowMs: 5 * 60 * 1000, maxSamples: 100 }) {}
+
+  record(provider: string, success: boolean, latencyMs: number): void {
+    const samples = this.samples.get(provider) || [];
+    samples.push({ success, latencyMs, timestamp: Date.now() });
+    if (samples.length > this.options.maxSamples) {
+      samples.splice(0, samples.length - this.options.maxSamples);
+    }
+    this.samples.set(provider, samples);
+  }
+
+  get(provider: string): ProviderStats {
+    const cutoff = Date.now() - this.options.windowMs;
+    const recent = (this.samples.get(provider) || []).filter(sample => sample.timestamp >= cutoff);
+    if (recent.length === 0) {
+      return { samples: 0, successRate: 1 };
+    }
+
+    const successes = recent.filter(sample => sample.success).length;
+    const totalLatency = recent.reduce((total, sample) => total + sample.latencyMs, 0);
+    return {
+      samples: recent.length,
+      successRate: successes / recent.length,
+      averageLatencyMs: totalLatency / recent.length
+    };
+  }
+
+  clear(): void {
+    this.samples.clear();
+  }
+}
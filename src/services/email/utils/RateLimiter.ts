@@ -1,4 +1,6 @@
-import { RateLimitOptions } from '../types';
+import { DomainRateLimitOptions, TokenBucketLimit } from '../types';
+
+const MIN_SWEEP_SIZE = 1000;
 
 /**
  * Token bucket rate limiter implementation
@@ -9,7 +11,7 @@ export class RateLimiter {
   private readonly maxTokens: number;
   private readonly refillRate: number;
 
-  constructor(private options: RateLimitOptions) {
+  constructor(private options: TokenBucketLimit) {
     this.maxTokens = options.maxRequests;
     this.tokens = this.maxTokens;
     this.lastRefill = Date.now();
@@ -17,6 +19,13 @@ export class RateLimiter {
   }
 
   async acquire(): Promise<boolean> {
+    return this.tryAcquire();
+  }
+
+  /**
+   * Synchronous form of acquire, for callers that must check several limiters atomically
+   */
+  tryAcquire(): boolean {
     this.refill();
     
     if (this.tokens >= 1) {
@@ -41,8 +50,108 @@ export class RateLimiter {
     return Math.floor(this.tokens);
   }
 
+  /**
+   * True once the bucket has refilled completely, so it behaves like a new one
+   */
+  isFull(): boolean {
+    this.refill();
+    return this.tokens >= this.maxTokens;
+  }
+
   getRemainingTime(): number {
     if (this.tokens >= 1) return 0;
     return Math.ceil((1 - this.tokens) / this.refillRate);
   }
+}
+
+/**
+ * One token bucket per key, e.g. per recipient domain.
+ * Keys without a specific limit share the default limit (each with its own
+ * bucket), or are unlimited when there is no default. Buckets that have
+ * refilled are dropped as the map grows, so idle keys cost no memory.
+ */
+export class KeyedRateLimiter {
+  private readonly limiters: Map<string, RateLimiter> = new Map();
+  private sweepAt = MIN_SWEEP_SIZE; // Map size that triggers the next sweep of full buckets
+
+  constructor(private options: DomainRateLimitOptions = {}) {}
+
+  /**
+   * Take one token from every key's bucket, or none if any of them is empty
+   */
+  acquire(keys: string[]): boolean {
+    if (this.getBlockedKey(keys) !== undefined) {
+      return false;
+    }
+    keys.forEach(key => this.limiterFor(key)?.tryAcquire());
+    return true;
+  }
+
+  /**
+   * First key whose bucket is empty, if any
+   */
+  getBlockedKey(keys: string[]): string | undefined {
+    return keys.find(key => {
+      const limiter = this.limiterFor(key);
+      return limiter !== undefined && limiter.getAvailableTokens() < 1;
+    });
+  }
+
+  /**
+   * Time until every key has a token available
+   */
+  getRemainingTime(keys: string[]): number {
+    return keys.reduce((longest, key) => {
+      const limiter = this.limiterFor(key);
+      if (!limiter) return longest;
+      limiter.getAvailableTokens(); // refill before measuring
+      return Math.max(longest, limiter.getRemainingTime());
+    }, 0);
+  }
+
+  /**
+   * Available tokens for every key with a bucket in use
+   */
+  getAvailableTokens(): Record<string, number> {
+    return Object.fromEntries(
+      Array.from(this.limiters.entries()).map(([key, limiter]) => [key, limiter.getAvailableTokens()])
+    );
+  }
+
+  clear(): void {
+    this.limiters.clear();
+    this.sweepAt = MIN_SWEEP_SIZE;
+  }
+
+  private limiterFor(key: string): RateLimiter | undefined {
+    const normalized = key.toLowerCase();
+    const existing = this.limiters.get(normalized);
+    if (existing) {
+      return existing;
+    }
+
+    const limit = this.options.domains?.[normalized] ?? this.options.default;
+    if (!limit) {
+      return undefined;
+    }
+
+    if (this.limiters.size >= this.sweepAt) {
+      this.sweep();
+    }
+    const limiter = new RateLimiter(limit);
+    this.limiters.set(normalized, limiter);
+    return limiter;
+  }
+
+  /**
+   * Drop full buckets; the next sweep waits until the map has doubled, so sweeping stays cheap
+   */
+  private sweep(): void {
+    this.limiters.forEach((limiter, key) => {
+      if (limiter.isFull()) {
+        this.limiters.delete(key);
+      }
+    });
+    this.sweepAt = Math.max(MIN_SWEEP_SIZE, this.limiters.size * 2);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { RetryContext, RetryOptions, RetryPolicy } from '../types';
+
+/**
+ * Shared retry rules: attempt limit, maximum delay, retry-after hints and total retry time.
+ * Subclasses only decide the raw delay for the next attempt.
+ */
+export abstract class BaseRetryPolicy implements RetryPolicy {
+  constructor(protected options: RetryOptions) {}
+
+  get maxAttempts(): number {
+    return this.options.maxAttempts;
+  }
+
+  get maxRetryTime(): number | undefined {
+    return this.options.maxRetryTime;
+  }
+
+  nextDelay(context: RetryContext): number | null {
+    if (context.attempt >= this.options.maxAttempts) {
+      return null;
+    }
+
+    let delay = Math.min(this.computeDelay(context), this.options.maxDelay);
+
+    if (context.retryAfterMs !== undefined) {
+      // A hint longer than we are ever willing to wait means another provider is the better bet
+      if (context.retryAfterMs > this.options.maxDelay) {
+        return null;
+      }
+      delay = Math.max(delay, context.retryAfterMs);
+    }
+
+    if (
+      this.options.maxRetryTime !== undefined &&
+      context.elapsedMs + delay > this.options.maxRetryTime
+    ) {
+      return null;
+    }
+
+    return delay;
+  }
+
+  protected abstract computeDelay(context: RetryContext): number;
+
+  protected exponentialDelay(attempt: number): number {
+    return this.options.baseDelay * Math.pow(this.options.backoffFactor, attempt - 1);
+  }
+}
+
+/**
+ * baseDelay * backoffFactor^(attempt - 1)
+ */
+export class ExponentialBackoffPolicy extends BaseRetryPolicy {
+  protected computeDelay(context: RetryContext): number {
+    return this.exponentialDelay(context.attempt);
+  }
+}
+
+/**
+ * Random delay between 0 and the exponential delay, spreading out retries from many messages
+ */
+export class FullJitterPolicy extends BaseRetryPolicy {
+  protected computeDelay(context: RetryContext): number {
+    const ceiling = Math.min(this.exponentialDelay(context.attempt), this.options.maxDelay);
+    return Math.random() * ceiling;
+  }
+}
+
+/**
+ * Random delay between baseDelay and three times the previous delay
+ */
+export class DecorrelatedJitterPolicy extends BaseRetryPolicy {
+  protected computeDelay(context: RetryContext): number {
+    const { baseDelay } = this.options;
+    const ceiling = Math.max(baseDelay, context.previousDelay * 3);
+    return baseDelay + Math.random() * (ceiling - baseDelay);
+  }
+}
+
+/**
+ * Constant baseDelay between attempts
+ */
+export class FixedDelayPolicy extends BaseRetryPolicy {
+  protected computeDelay(): number {
+    return this.options.baseDelay;
+  }
+}
+
+/**
+ * baseDelay * attempt
+ */
+export class LinearBackoffPolicy extends BaseRetryPolicy {
+  protected computeDelay(context: RetryContext): number {
+    return this.options.baseDelay * context.attempt;
+  }
+}
+
+/**
+ * Build the built-in policy selected by `options.strategy`
+ */
+export function createRetryPolicy(options: RetryOptions): RetryPolicy {
+  switch (options.strategy) {
+    case 'full-jitter':
+      return new FullJitterPolicy(options);
+    case 'decorrelated-jitter':
+      return new DecorrelatedJitterPolicy(options);
+    case 'fixed':
+      return new FixedDelayPolicy(options);
+    case 'linear':
+      return new LinearBackoffPolicy(options);
+    case 'exponential':
+    default:
+      return new ExponentialBackoffPolicy(options);
+  }
+}
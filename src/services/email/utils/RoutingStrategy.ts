@@ -0,0 +1,118 @@
+import { EmailProvider, RoutingContext, RoutingStrategy } from '../types';
+
+/**
+ * Constructor order: the first provider takes all traffic until it fails
+ */
+export class PriorityRoutingStrategy implements RoutingStrategy {
+  name = 'priority';
+
+  order(providers: EmailProvider[]): EmailProvider[] {
+    return [...providers];
+  }
+}
+
+/**
+ * Spreads traffic by weight using smooth weighted round-robin, so a 3:1 split
+ * interleaves as A A B A rather than sending bursts. The remaining providers
+ * follow in priority order as fallbacks.
+ */
+export class WeightedRoundRobinStrategy implements RoutingStrategy {
+  name = 'weighted-round-robin';
+  private readonly current: Map<string, number> = new Map();
+
+  constructor(private weights: Record<string, number> = {}) {}
+
+  order(providers: EmailProvider[]): EmailProvider[] {
+    const weighted = providers.filter(provider => this.weightOf(provider) > 0);
+    if (weighted.length === 0) {
+      return [...providers];
+    }
+
+    const total = weighted.reduce((sum, provider) => sum + this.weightOf(provider), 0);
+    let selected = weighted[0];
+    weighted.forEach(provider => {
+      const value = (this.current.get(provider.name) || 0) + this.weightOf(provider);
+      this.current.set(provider.name, value);
+      if (value > (this.current.get(selected.name) || 0)) {
+        selected = provider;
+      }
+    });
+    this.current.set(selected.name, (this.current.get(selected.name) || 0) - total);
+
+    return [selected, ...providers.filter(provider => provider !== selected)];
+  }
+
+  private weightOf(provider: EmailProvider): number {
+    return this.weights[provider.name] ?? 1;
+  }
+}
+
+/**
+ * Fastest provider first, by average latency over the rolling window.
+ * Providers without samples go first so they get measured.
+ */
+export class LeastLatencyStrategy implements RoutingStrategy {
+  name = 'least-latency';
+
+  order(providers: EmailProvider[], context: RoutingContext): EmailProvider[] {
+    const latency = (provider: EmailProvider) => context.getStats(provider.name).averageLatencyMs ?? -1;
+    return stableSort(providers, (a, b) => latency(a) - latency(b));
+  }
+}
+
+/**
+ * Healthiest provider first, by success rate over the rolling window.
+ * Rates are grouped into bands `tolerance` wide; providers in the same band
+ * keep priority order. Comparing bands rather than differences keeps the
+ * ordering transitive.
+ */
+export class HealthScoreStrategy implements RoutingStrategy {
+  name = 'health-score';
+
+  constructor(private tolerance: number = 0.05) {}
+
+  order(providers: EmailProvider[], context: RoutingContext): EmailProvider[] {
+    const band = (provider: EmailProvider) => {
+      const rate = context.getStats(provider.name).successRate;
+      // The epsilon keeps rates such as 0.95 from landing a band low through floating-point error
+      return this.tolerance > 0 ? Math.floor(rate / this.tolerance + 1e-9) : rate;
+    };
+    return stableSort(providers, (a, b) => band(b) - band(a));
+  }
+}
+
+/**
+ * Routes messages by tag to a fixed list of providers (in that order) or to
+ * another strategy; the first of a message's tags with a route wins.
+ * Untagged messages, or tags without a route, use the fallback strategy.
+ */
+export class TagRoutingStrategy implements RoutingStrategy {
+  name = 'tag';
+
+  constructor(
+    private routes: Record<string, string[] | RoutingStrategy>,
+    private fallback: RoutingStrategy = new PriorityRoutingStrategy()
+  ) {}
+
+  order(providers: EmailProvider[], context: RoutingContext): EmailProvider[] {
+    const tag = (context.message.tags || []).find(candidate => candidate in this.routes);
+    if (tag === undefined) {
+      return this.fallback.order(providers, context);
+    }
+
+    const route = this.routes[tag];
+    if (Array.isArray(route)) {
+      return route
+        .map(name => providers.find(provider => provider.name === name))
+        .filter((provider): provider is EmailProvider => provider !== undefined);
+    }
+    return route.order(providers, context);
+  }
+}
+
+function stableSort<T>(items: T[], compare: (a: T, b: T) => number): T[] {
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => compare(a.item, b.item) || a.index - b.index)
+    .map(({ item }) => item);
+}
@@ -0,0 +1,133 @@
+import { ScheduledEmail } from '../types';
+
+// setTimeout overflows above 2^31-1 ms (about 24.8 days), so long waits are re-armed
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Holds emails until their send time and hands them back when due.
+ * Entries are kept sorted by send time, and a single timer is armed for the
+ * earliest one; it is only re-armed when the earliest entry changes.
+ */
+export class Scheduler {
+  private readonly entries: Map<string, ScheduledEmail> = new Map();
+  private order: ScheduledEmail[] = []; // Earliest first; equal send times keep their scheduling order
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private onDue: (entry: ScheduledEmail) => void) {}
+
+  schedule(entry: ScheduledEmail): void {
+    const replacedFirst = this.removeEntry(entry.message.id) === 0;
+    this.entries.set(entry.message.id, entry);
+    const index = this.upperBound(entry.sendAt);
+    this.order.splice(index, 0, entry);
+
+    if (index === 0 || replacedFirst) {
+      this.arm();
+    }
+  }
+
+  /**
+   * Remove an entry before it is due; returns it when it was still scheduled
+   */
+  cancel(messageId: string): ScheduledEmail | undefined {
+    const entry = this.entries.get(messageId);
+    if (entry && this.removeEntry(messageId) === 0) {
+      this.arm();
+    }
+    return entry;
+  }
+
+  get(messageId: string): ScheduledEmail | undefined {
+    return this.entries.get(messageId);
+  }
+
+  /**
+   * Scheduled entries, earliest first
+   */
+  list(): ScheduledEmail[] {
+    return [...this.order];
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.order = [];
+    this.disarm();
+  }
+
+  /**
+   * Remove an entry from the sorted order; returns the index it had, or -1
+   */
+  private removeEntry(messageId: string): number {
+    const entry = this.entries.get(messageId);
+    if (!entry) return -1;
+
+    this.entries.delete(messageId);
+    let index = this.lowerBound(entry.sendAt);
+    while (this.order[index] !== entry) index++;
+    this.order.splice(index, 1);
+    return index;
+  }
+
+  /**
+   * Index of the first entry due at or after sendAt
+   */
+  private lowerBound(sendAt: number): number {
+    let low = 0;
+    let high = this.order.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.order[mid].sendAt < sendAt) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  /**
+   * Index of the first entry due after sendAt
+   */
+  private upperBound(sendAt: number): number {
+    let low = 0;
+    let high = this.order.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.order[mid].sendAt <= sendAt) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  private arm(): void {
+    this.disarm();
+    const next = this.order[0];
+    if (!next) return;
+
+    const wait = Math.min(Math.max(0, next.sendAt - Date.now()), MAX_TIMER_DELAY);
+    this.timer = setTimeout(() => this.release(), wait);
+  }
+
+  private disarm(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private release(): void {
+    this.timer = null;
+    const due = this.order.splice(0, this.upperBound(Date.now()));
+
+    due.forEach(entry => {
+      this.entries.delete(entry.message.id);
+      this.onDue(entry);
+    });
+
+    // onDue may have scheduled or cancelled entries, which armed the timer already
+    if (this.timer === null) {
+      this.arm();
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { EmailStorage, SuppressionEntry, SuppressionOptions, SuppressionReason } from '../types';
+import { normalizeAddress } from '../message/addressParser';
+
+export interface AddSuppressionOptions {
+  detail?: string;
+  source?: string;
+  expiresAt?: number; // Overrides the reason's default expiry from SuppressionOptions.ttlMs
+}
+
+/**
+ * Addresses that must not be mailed, e.g. after a hard bounce or an unsubscribe.
+ * Addresses are matched in normalized form (trimmed, punycode domain) and
+ * case-insensitively; expired entries are dropped on access.
+ */
+export class SuppressionList {
+  constructor(
+    private storage: EmailStorage,
+    private options: SuppressionOptions = {}
+  ) {}
+
+  add(address: string, reason: SuppressionReason, options: AddSuppressionOptions = {}): SuppressionEntry {
+    const now = Date.now();
+    const ttlMs = this.options.ttlMs?.[reason];
+    const entry: SuppressionEntry = {
+      address: suppressionKey(address),
+      reason,
+      detail: options.detail,
+      source: options.source,
+      createdAt: now,
+      expiresAt: options.expiresAt ?? (ttlMs === undefined ? undefined : now + ttlMs)
+    };
+    this.storage.saveSuppression(entry);
+    return entry;
+  }
+
+  /**
+   * Returns false when the address was not suppressed
+   */
+  remove(address: string): boolean {
+    const key = suppressionKey(address);
+    if (!this.storage.getSuppression(key)) {
+      return false;
+    }
+    this.storage.removeSuppression(key);
+    return true;
+  }
+
+  get(address: string): SuppressionEntry | undefined {
+    const key = suppressionKey(address);
+    const entry = this.storage.getSuppression(key);
+    if (entry && this.isExpired(entry)) {
+      this.storage.removeSuppression(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * Entries for whichever of the addresses are suppressed
+   */
+  match(addresses: string[]): SuppressionEntry[] {
+    return addresses
+      .map(address => this.get(address))
+      .filter((entry): entry is SuppressionEntry => entry !== undefined);
+  }
+
+  list(filter?: (entry: SuppressionEntry) => boolean): SuppressionEntry[] {
+    this.prune();
+    const entries = this.storage.getSuppressions().sort((a, b) => a.createdAt - b.createdAt);
+    return filter ? entries.filter(filter) : entries;
+  }
+
+  size(): number {
+    return this.storage.getSuppressions().filter(entry => !this.isExpired(entry)).length;
+  }
+
+  private isExpired(entry: SuppressionEntry): boolean {
+    return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+  }
+
+  private prune(): void {
+    this.storage
+      .getSuppressions()
+      .filter(entry => this.isExpired(entry))
+      .forEach(entry => this.storage.removeSuppression(entry.address));
+  }
+}
+
+/**
+ * The form outgoing recipients are compared in, so "user@bücher.de" matches "user@xn--bcher-kva.de"
+ */
+function suppressionKey(address: string): string {
+  return (normalizeAddress(address) ?? address.trim()).toLowerCase();
+}
@@ -0,0 +1,215 @@
+import {
+  FinishedSpan,
+  Span,
+  SpanAttributes,
+  SpanAttributeValue,
+  SpanContext,
+  SpanExporter,
+  SpanOptions,
+  SpanStatusCode,
+  Tracer
+} from '../types';
+
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Parse a W3C `traceparent` value, e.g. `00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01`.
+ * Returns undefined for missing or malformed values, so a bad header never breaks a send.
+ */
+export function parseTraceparent(value?: string): SpanContext | undefined {
+  const match = value?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  if (!match || match[1] === 'ff' || match[2] === INVALID_TRACE_ID || match[3] === INVALID_SPAN_ID) {
+    return undefined;
+  }
+  return { traceId: match[2], spanId: match[3], traceFlags: parseInt(match[4], 16) };
+}
+
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.traceFlags.toString(16).padStart(2, '0')}`;
+}
+
+function randomHex(length: number): string {
+  const bytes = new Uint8Array(length / 2);
+  if (typeof globalThis.crypto?.getRandomValues === 'function') {
+    globalThis.crypto.getRandomValues(bytes);
+  } else {
+    bytes.forEach((_, index) => { bytes[index] = Math.floor(Math.random() * 256); });
+  }
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  // All-zero IDs are invalid
+  return /^0+$/.test(hex) ? randomHex(length) : hex;
+}
+
+/**
+ * Span that records nothing. It keeps its parent's context so trace IDs still
+ * propagate when tracing is off.
+ */
+class NoopSpan implements Span {
+  constructor(readonly name: string, private context: SpanContext) {}
+
+  spanContext(): SpanContext {
+    return this.context;
+  }
+
+  setAttribute(): this {
+    return this;
+  }
+
+  setAttributes(): this {
+    return this;
+  }
+
+  addEvent(): this {
+    return this;
+  }
+
+  setStatus(): this {
+    return this;
+  }
+
+  recordException(): this {
+    return this;
+  }
+
+  end(): void {}
+}
+
+/**
+ * The default tracer: spans cost next to nothing and go nowhere
+ */
+export class NoopTracer implements Tracer {
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    return new NoopSpan(name, options.parent || { traceId: INVALID_TRACE_ID, spanId: INVALID_SPAN_ID, traceFlags: 0 });
+  }
+}
+
+class RecordingSpan implements Span {
+  private readonly context: SpanContext;
+  private readonly parentSpanId?: string;
+  private readonly attributes: Record<string, SpanAttributeValue> = {};
+  private readonly events: FinishedSpan['events'] = [];
+  private status: FinishedSpan['status'] = { code: 'unset' };
+  private readonly startTime: number;
+  private ended = false;
+
+  constructor(
+    readonly name: string,
+    options: SpanOptions,
+    private onEnd: (span: FinishedSpan) => void
+  ) {
+    this.context = {
+      traceId: options.parent?.traceId ?? randomHex(32),
+      spanId: randomHex(16),
+      traceFlags: options.parent?.traceFlags ?? 1
+    };
+    this.parentSpanId = options.parent?.spanId;
+    this.startTime = options.startTime ?? Date.now();
+    this.setAttributes(options.attributes || {});
+  }
+
+  spanContext(): SpanContext {
+    return this.context;
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue | undefined): this {
+    if (!this.ended && value !== undefined) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    Object.entries(attributes).forEach(([key, value]) => this.setAttribute(key, value));
+    return this;
+  }
+
+  addEvent(name: string, attributes: SpanAttributes = {}): this {
+    if (!this.ended) {
+      this.events.push({ name, time: Date.now(), attributes: definedOnly(attributes) });
+    }
+    return this;
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    // As in OpenTelemetry, ok is final
+    if (!this.ended && this.status.code !== 'ok') {
+      this.status = message === undefined ? { code } : { code, message };
+    }
+    return this;
+  }
+
+  recordException(error: unknown): this {
+    return this.addEvent('exception', {
+      'exception.type': error instanceof Error ? error.name : typeof error,
+      'exception.message': error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  end(endTime: number = Date.now()): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.onEnd({
+      name: this.name,
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      parentSpanId: this.parentSpanId,
+      startTime: this.startTime,
+      endTime,
+      durationMs: endTime - this.startTime,
+      attributes: { ...this.attributes },
+      events: [...this.events],
+      status: { ...this.status }
+    });
+  }
+}
+
+function definedOnly(attributes: SpanAttributes): Record<string, SpanAttributeValue> {
+  return Object.fromEntries(
+    Object.entries(attributes).filter((entry): entry is [string, SpanAttributeValue] => entry[1] !== undefined)
+  );
+}
+
+/**
+ * Records spans and hands each one to the exporter when it ends
+ */
+export class BasicTracer implements Tracer {
+  constructor(private exporter: SpanExporter) {}
+
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    return new RecordingSpan(name, options, span => {
+      try {
+        this.exporter.export([span]);
+      } catch {
+        // A broken exporter must not fail the send being traced; the span is dropped
+      }
+    });
+  }
+}
+
+/**
+ * Keeps finished spans in memory, for tests and debugging
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: FinishedSpan[] = [];
+
+  export(spans: FinishedSpan[]): void {
+    this.spans.push(...spans);
+  }
+
+  getFinishedSpans(): FinishedSpan[] {
+    return [...this.spans];
+  }
+
+  /**
+   * Finished spans of one trace, in the order they ended
+   */
+  getTrace(traceId: string): FinishedSpan[] {
+    return this.spans.filter(span => span.traceId === traceId);
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}